@@ -0,0 +1,127 @@
+/**
+ * @author Mariën Jan
+ *
+ * Verification hook for the y-websocket server.
+ * Tokens are signed by the server for the notebook owner (see server/tokens.js) and have the form `<payload>.<signature>`.
+ */
+
+const crypto = require('crypto')
+const decoding = require('lib0/decoding')
+
+// Close codes understood by the client
+const CLOSE_INVALID_TOKEN = 4401
+const CLOSE_FORBIDDEN = 4403
+
+const messageSync = 0
+const messageYjsSyncStep2 = 1
+const messageYjsUpdate = 2
+
+/**
+ * Error raised when a connection is refused
+ */
+class AuthError extends Error {
+  /**
+   * @param {number} code WebSocket close code
+   * @param {string} message Reason shown to the client
+   */
+  constructor (code, message) {
+    super(message)
+    this.code = code
+  }
+}
+
+/**
+ * Encodes a buffer as base64url without padding
+ * @param {Buffer} buffer Bytes to encode
+ * @returns {string}
+ */
+const encode = buffer => buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+/**
+ * Signs a token for a room
+ * @param {{ room: string, scope: 'write' | 'read', exp: number }} data Payload of the token
+ * @param {string} secret Secret of the server
+ * @returns {string} Signed token
+ */
+const signToken = (data, secret) => {
+  const payload = encode(Buffer.from(JSON.stringify(data), 'utf8'))
+  return `${payload}.${encode(crypto.createHmac('sha256', secret).update(payload).digest())}`
+}
+
+/**
+ * Verifies a token for the given room
+ * @param {string} token Signed token
+ * @param {string} room Name of the room the client wants to join
+ * @param {string} secret Secret of the server
+ * @returns {{ room: string, scope: 'write' | 'read', exp: number }} Payload of the token
+ * @throws {AuthError} If the token is missing, invalid, expired or meant for another room
+ */
+const verifyToken = (token, room, secret) => {
+  if (!token || token.split('.').length !== 2) {
+    throw new AuthError(CLOSE_INVALID_TOKEN, 'No valid access token was provided.')
+  }
+  const [payload, signature] = token.split('.')
+  const expected = encode(crypto.createHmac('sha256', secret).update(payload).digest())
+  if (expected.length !== signature.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+    throw new AuthError(CLOSE_INVALID_TOKEN, 'The access token has an invalid signature.')
+  }
+  let data
+  try {
+    data = JSON.parse(Buffer.from(payload.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8'))
+  } catch (e) {
+    throw new AuthError(CLOSE_INVALID_TOKEN, 'The access token is malformed.')
+  }
+  if (data.room !== room) {
+    throw new AuthError(CLOSE_FORBIDDEN, 'The access token does not belong to this notebook.')
+  }
+  if (typeof data.exp !== 'number' || data.exp * 1000 < Date.now()) {
+    throw new AuthError(CLOSE_FORBIDDEN, 'The access token has expired.')
+  }
+  return data
+}
+
+/**
+ * Checks whether a message would modify the shared document
+ * @param {Uint8Array} message Message received from a client
+ * @returns {boolean}
+ */
+const isWriteMessage = message => {
+  const decoder = decoding.createDecoder(message)
+  if (decoding.readVarUint(decoder) !== messageSync) {
+    return false
+  }
+  const syncType = decoding.readVarUint(decoder)
+  return syncType === messageYjsSyncStep2 || syncType === messageYjsUpdate
+}
+
+/**
+ * Authenticates a new WebSocket connection.
+ * Connections without a valid token are closed, document updates of read-only connections are dropped.
+ * @param {any} conn WebSocket connection
+ * @param {import('http').IncomingMessage} request Upgrade request
+ * @param {string} secret Secret of the server
+ * @returns {boolean} Whether the connection was accepted
+ */
+const authenticate = (conn, request, secret) => {
+  const url = new URL(request.url, 'http://localhost')
+  const room = url.pathname.split('/').pop()
+  let payload
+  try {
+    payload = verifyToken(url.searchParams.get('token'), room, secret)
+  } catch (e) {
+    conn.close(e.code || CLOSE_INVALID_TOKEN, e.message)
+    return false
+  }
+  if (payload.scope === 'read') {
+    const emit = conn.emit.bind(conn)
+    conn.emit = (event, ...args) => {
+      if (event === 'message' && isWriteMessage(new Uint8Array(args[0]))) {
+        return false
+      }
+      return emit(event, ...args)
+    }
+  }
+  return true
+}
+
+module.exports = { AuthError, signToken, verifyToken, authenticate, CLOSE_INVALID_TOKEN, CLOSE_FORBIDDEN }
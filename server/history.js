@@ -0,0 +1,155 @@
+/**
+ * @author Mariën Jan
+ *
+ * Checkpoint storage of the y-websocket server.
+ * The states of the checkpoints of a shared notebook are stored next to the server instead of in the shared document,
+ * so the document itself can be garbage collected (see src/history.ts).
+ */
+
+const fs = require('fs')
+const path = require('path')
+const { verifyToken } = require('./auth')
+const { TokenError, allowCrossOrigin } = require('./tokens')
+
+const NAME = /^[\w-]+$/
+
+/**
+ * Checkpoints of the rooms, one directory per room with a file per checkpoint
+ */
+class CheckpointFiles {
+  /**
+   * @param {string} dir Directory in which the checkpoints are stored
+   * @param {number} limit Maximum number of checkpoints of a room
+   * @param {number} maxSize Maximum number of bytes of the checkpoints of a room
+   */
+  constructor (dir, limit, maxSize) {
+    this.dir = dir
+    this.limit = limit
+    this.maxSize = maxSize
+  }
+
+  /**
+   * Returns the checkpoints of a room from old to new
+   * @param {string} room Name of the room
+   * @returns {{ id: string, file: string, size: number, time: number }[]}
+   */
+  list (room) {
+    const dir = path.join(this.dir, room)
+    if (!fs.existsSync(dir)) {
+      return []
+    }
+    return fs.readdirSync(dir).map(name => {
+      const file = path.join(dir, name)
+      const stat = fs.statSync(file)
+      return { id: name, file, size: stat.size, time: stat.mtimeMs }
+    }).sort((a, b) => a.time - b.time)
+  }
+
+  /**
+   * Returns the state of a checkpoint
+   * @param {string} room Name of the room
+   * @param {string} id ID of the checkpoint
+   * @returns {Buffer}
+   * @throws {TokenError} If the checkpoint does not exist
+   */
+  read (room, id) {
+    const file = path.join(this.dir, room, id)
+    if (!fs.existsSync(file)) {
+      throw new TokenError(404, 'The checkpoint does not exist, it may have been removed to free space.')
+    }
+    return fs.readFileSync(file)
+  }
+
+  /**
+   * Stores the state of a checkpoint and removes the oldest checkpoints of the room above the limits
+   * @param {string} room Name of the room
+   * @param {string} id ID of the checkpoint
+   * @param {Buffer} state State of the shared document
+   * @returns {string[]} IDs of the checkpoints that are kept, from old to new
+   */
+  write (room, id, state) {
+    fs.mkdirSync(path.join(this.dir, room), { recursive: true })
+    fs.writeFileSync(path.join(this.dir, room, id), state)
+    const checkpoints = this.list(room)
+    let size = checkpoints.reduce((total, checkpoint) => total + checkpoint.size, 0)
+    while (checkpoints.length > 1 && (checkpoints.length > this.limit || size > this.maxSize)) {
+      const removed = checkpoints.shift()
+      fs.unlinkSync(removed.file)
+      size -= removed.size
+    }
+    return checkpoints.map(checkpoint => checkpoint.id)
+  }
+}
+
+/**
+ * Reads the binary body of a request
+ * @param {import('http').IncomingMessage} request
+ * @param {number} maxSize Maximum number of bytes
+ * @returns {Promise<Buffer>}
+ */
+const readState = (request, maxSize) => new Promise((resolve, reject) => {
+  const chunks = []
+  let size = 0
+  request.on('data', chunk => {
+    size += chunk.length
+    if (size > maxSize) {
+      reject(new TokenError(413, 'The checkpoint exceeds the storage limit of a notebook.'))
+      request.destroy()
+      return
+    }
+    chunks.push(chunk)
+  })
+  request.on('end', () => resolve(Buffer.concat(chunks)))
+  request.on('error', reject)
+})
+
+/**
+ * Creates the handler of `/history/<room>`. `GET /history/<room>` lists the checkpoints, `GET /history/<room>/<id>`
+ * returns the state of a checkpoint and `POST /history/<room>/<id>` stores one. Requests carry the access token of the room
+ * in their `token` parameter, storing a checkpoint requires a token with the write scope.
+ * @param {{ secret: string, files: CheckpointFiles }} options
+ * @returns {(request: import('http').IncomingMessage, response: import('http').ServerResponse) => void}
+ */
+const historyHandler = ({ secret, files }) => (request, response) => {
+  if (allowCrossOrigin(request, response)) {
+    return
+  }
+  const respond = (status, body) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(body))
+  }
+  Promise.resolve().then(async () => {
+    const url = new URL(request.url, 'http://localhost')
+    const parts = url.pathname.split('/')
+    const index = parts.lastIndexOf('history')
+    const [room, id] = parts.slice(index + 1)
+    if (!room || !NAME.test(room) || (id !== undefined && !NAME.test(id))) {
+      throw new TokenError(404, 'Unknown notebook or checkpoint.')
+    }
+    let payload
+    try {
+      payload = verifyToken(url.searchParams.get('token'), room, secret)
+    } catch (e) {
+      throw new TokenError(e.code === 4403 ? 403 : 401, e.message)
+    }
+    if (request.method === 'GET' && id === undefined) {
+      respond(200, { checkpoints: files.list(room).map(checkpoint => checkpoint.id) })
+    } else if (request.method === 'GET') {
+      const state = files.read(room, id)
+      response.writeHead(200, { 'Content-Type': 'application/octet-stream' })
+      response.end(state)
+    } else if (request.method === 'POST' && id !== undefined) {
+      if (payload.scope !== 'write') {
+        throw new TokenError(403, 'Viewers cannot store checkpoints.')
+      }
+      const state = await readState(request, files.maxSize)
+      respond(200, { checkpoints: files.write(room, id, state) })
+    } else {
+      throw new TokenError(405, 'Checkpoints are listed and read with GET and stored with POST.')
+    }
+  }).catch(e => {
+    respond(e.status || 500, { message: e.message })
+  })
+}
+
+module.exports = { CheckpointFiles, historyHandler }
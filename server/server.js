@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+/**
+ * @author Mariën Jan
+ *
+ * y-websocket server that only accepts connections carrying a valid access token.
+ * The tokens are signed with the secret in the YJS_RTC_SECRET environment variable and handed out by `POST /token`
+ * to the owners of the notebooks, who are identified through the JupyterHub API at JUPYTERHUB_API_URL.
+ * The checkpoints of the notebooks are stored in YJS_RTC_DATA and served under `/history`.
+ */
+
+const WebSocket = require('ws')
+const http = require('http')
+const { setupWSConnection } = require('y-websocket/bin/utils')
+const path = require('path')
+const { authenticate } = require('./auth')
+const { RoomOwners, tokenHandler } = require('./tokens')
+const { CheckpointFiles, historyHandler } = require('./history')
+
+const host = process.env.HOST || 'localhost'
+const port = process.env.PORT || 1234
+const secret = process.env.YJS_RTC_SECRET
+const dataDir = process.env.YJS_RTC_DATA || path.join(__dirname, 'data')
+
+if (!secret) {
+  console.error('YJS_RTC_SECRET is not set')
+  process.exit(1)
+}
+
+const wss = new WebSocket.Server({ noServer: true })
+
+const handleToken = tokenHandler({
+  secret,
+  hubApiUrl: process.env.JUPYTERHUB_API_URL,
+  owners: new RoomOwners(path.join(dataDir, 'owners.json')),
+  maxLifetime: Number(process.env.YJS_RTC_MAX_LIFETIME) || 168
+})
+
+const handleHistory = historyHandler({
+  secret,
+  files: new CheckpointFiles(
+    path.join(dataDir, 'history'),
+    Number(process.env.YJS_RTC_CHECKPOINT_LIMIT) || 100,
+    (Number(process.env.YJS_RTC_HISTORY_SIZE) || 100) * 1024 * 1024
+  )
+})
+
+const server = http.createServer((request, response) => {
+  const parts = new URL(request.url, 'http://localhost').pathname.split('/')
+  if (parts[parts.length - 1] === 'token') {
+    handleToken(request, response)
+    return
+  }
+  if (parts.includes('history')) {
+    handleHistory(request, response)
+    return
+  }
+  response.writeHead(200, { 'Content-Type': 'text/plain' })
+  response.end('okay')
+})
+
+server.on('upgrade', (request, socket, head) => {
+  wss.handleUpgrade(request, socket, head, conn => {
+    if (authenticate(conn, request, secret)) {
+      const docName = new URL(request.url, 'http://localhost').pathname.split('/').pop()
+      setupWSConnection(conn, request, { docName })
+    }
+  })
+})
+
+server.listen(port, host, () => {
+  console.log(`running at '${host}' on port ${port}`)
+})
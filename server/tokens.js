@@ -0,0 +1,175 @@
+/**
+ * @author Mariën Jan
+ *
+ * Token endpoint of the y-websocket server.
+ * The owner of a shared notebook requests the tokens of the room from here, so the secret never leaves the server.
+ * Users are identified by a short-lived JupyterHub token that can only read their name, the first user that requests a token for a room becomes its owner.
+ */
+
+const fs = require('fs')
+const http = require('http')
+const https = require('https')
+const path = require('path')
+const { signToken } = require('./auth')
+
+/**
+ * Error answered to a token request
+ */
+class TokenError extends Error {
+  /**
+   * @param {number} status HTTP status code
+   * @param {string} message Reason shown to the client
+   */
+  constructor (status, message) {
+    super(message)
+    this.status = status
+  }
+}
+
+/**
+ * Owners of the rooms, stored in a JSON file so they survive a restart of the server
+ */
+class RoomOwners {
+  /**
+   * @param {string} file Path of the JSON file
+   */
+  constructor (file) {
+    this.file = file
+    this.owners = {}
+    if (fs.existsSync(file)) {
+      this.owners = JSON.parse(fs.readFileSync(file, 'utf8'))
+    }
+  }
+
+  /**
+   * Returns the owner of a room, the user becomes the owner of a room nobody claimed yet
+   * @param {string} room Name of the room
+   * @param {string} user Name of the user requesting a token
+   * @returns {string}
+   */
+  claim (room, user) {
+    if (!this.owners[room]) {
+      this.owners[room] = user
+      fs.mkdirSync(path.dirname(this.file), { recursive: true })
+      fs.writeFileSync(this.file, JSON.stringify(this.owners))
+    }
+    return this.owners[room]
+  }
+}
+
+/**
+ * Allows the page of JupyterLab, which is served from another origin, to call the HTTP endpoints of the server.
+ * Credentials are sent in a header or the url instead of a cookie, so any origin is allowed.
+ * @param {import('http').IncomingMessage} request
+ * @param {import('http').ServerResponse} response
+ * @returns {boolean} Whether the request was a preflight request, which has been answered
+ */
+const allowCrossOrigin = (request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', request.headers.origin || '*')
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204)
+    response.end()
+    return true
+  }
+  return false
+}
+
+/**
+ * Looks up the JupyterHub user of an API token
+ * @param {string | undefined} authorization Authorization header of the request, `token <api token>`
+ * @param {string} hubApiUrl Url of the JupyterHub REST API
+ * @returns {Promise<string>} Name of the user
+ * @throws {TokenError} If the token does not belong to a user
+ */
+const identify = (authorization, hubApiUrl) => new Promise((resolve, reject) => {
+  if (!authorization || !authorization.startsWith('token ')) {
+    reject(new TokenError(401, 'No JupyterHub token was provided.'))
+    return
+  }
+  const url = new URL(`${hubApiUrl.replace(/\/$/, '')}/user`)
+  const client = url.protocol === 'https:' ? https : http
+  client.get(url, { headers: { Authorization: authorization } }, response => {
+    let body = ''
+    response.on('data', chunk => {
+      body += chunk
+    })
+    response.on('end', () => {
+      if (response.statusCode !== 200) {
+        reject(new TokenError(401, 'The JupyterHub token was refused.'))
+        return
+      }
+      try {
+        resolve(JSON.parse(body).name)
+      } catch (e) {
+        reject(new TokenError(502, 'JupyterHub answered with invalid JSON.'))
+      }
+    })
+  }).on('error', e => {
+    reject(new TokenError(502, `JupyterHub could not be reached: ${e.message}`))
+  })
+})
+
+/**
+ * Reads the JSON body of a request
+ * @param {import('http').IncomingMessage} request
+ * @returns {Promise<any>}
+ */
+const readBody = request => new Promise((resolve, reject) => {
+  let body = ''
+  request.on('data', chunk => {
+    body += chunk
+    if (body.length > 4096) {
+      reject(new TokenError(413, 'The request is too large.'))
+      request.destroy()
+    }
+  })
+  request.on('end', () => {
+    try {
+      resolve(JSON.parse(body))
+    } catch (e) {
+      reject(new TokenError(400, 'The request is not valid JSON.'))
+    }
+  })
+  request.on('error', reject)
+})
+
+/**
+ * Creates the handler of `POST /token`. The body contains the `room`, the `scope` and the requested `lifetime` in hours,
+ * the response contains the signed `token`.
+ * @param {{ secret: string, hubApiUrl: string, owners: RoomOwners, maxLifetime: number }} options
+ * @returns {(request: import('http').IncomingMessage, response: import('http').ServerResponse) => void}
+ */
+const tokenHandler = ({ secret, hubApiUrl, owners, maxLifetime }) => (request, response) => {
+  if (allowCrossOrigin(request, response)) {
+    return
+  }
+  const respond = (status, body) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(body))
+  }
+  Promise.resolve().then(async () => {
+    if (request.method !== 'POST') {
+      throw new TokenError(405, 'Tokens are requested with POST.')
+    }
+    if (!hubApiUrl) {
+      throw new TokenError(501, 'JUPYTERHUB_API_URL is not set, users cannot be identified.')
+    }
+    const user = await identify(request.headers.authorization, hubApiUrl)
+    const { room, scope, lifetime } = await readBody(request)
+    if (typeof room !== 'string' || !room || (scope !== 'write' && scope !== 'read')) {
+      throw new TokenError(400, 'A room and a scope of "write" or "read" are required.')
+    }
+    if (owners.claim(room, user) !== user) {
+      throw new TokenError(403, 'Only the owner of the notebook can create tokens.')
+    }
+    const hours = Math.min(typeof lifetime === 'number' && lifetime > 0 ? lifetime : maxLifetime, maxLifetime)
+    const exp = Math.floor(Date.now() / 1000) + Math.round(hours * 3600)
+    respond(200, { token: signToken({ room, scope, exp }, secret) })
+  }).catch(e => {
+    respond(e.status || 500, { message: e.message })
+  })
+}
+
+module.exports = { TokenError, RoomOwners, allowCrossOrigin, identify, tokenHandler }
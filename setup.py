@@ -70,7 +70,7 @@ setup_args = dict(
     cmdclass=cmdclass,
     packages=setuptools.find_packages(),
     install_requires=[
-        "jupyterlab~=3.0",
+        "jupyterlab~=3.1",
     ],
     zip_safe=False,
     include_package_data=True,
@@ -8,16 +8,70 @@ import { CodeMirrorBinding, CodemirrorBinding } from 'y-codemirror'
 import { CodeMirrorEditor } from '@jupyterlab/codemirror'
 import * as Y from 'yjs'
 import { WebsocketProvider } from 'y-websocket'
-import { Cell, ICellModel, CodeCell } from '@jupyterlab/cells'
+import { IndexeddbPersistence } from 'y-indexeddb'
+import { Cell, ICellModel, CodeCell, IAttachmentsCellModel } from '@jupyterlab/cells'
 import { IObservableUndoableList, IObservableList } from '@jupyterlab/observables'
-import { Dialog } from '@jupyterlab/apputils'
-import { Panel, PanelLayout } from '@lumino/widgets'
-import { Slot } from '@lumino/signaling'
+import { Dialog, showDialog, showErrorMessage, ToolbarButton } from '@jupyterlab/apputils'
+import { Panel, PanelLayout, Widget } from '@lumino/widgets'
+import { ISignal, Signal, Slot } from '@lumino/signaling'
+import { ArrayExt, toArray } from '@lumino/algorithm'
 import { MessageLoop, MessageHook } from '@lumino/messaging'
-import { IOutput } from '@jupyterlab/nbformat';
+import { JSONExt } from '@lumino/coreutils'
 import { Colors } from './colors'
-import { IOutputModel } from '@jupyterlab/rendermime'
 import { DocumentRegistry } from '@jupyterlab/docregistry'
+import { RTCSettings } from './settings'
+import { CLOSE_FORBIDDEN, CLOSE_INVALID_TOKEN, RTCToken, TokenScope } from './token'
+import { PresenceIndicator } from './presence'
+import { CELL_METADATA_EXCLUDED, MetadataBinding } from './metadata'
+import { SharedOutputs } from './outputs'
+import { LOAD_OUTPUT_EVENT } from './placeholder'
+import { ExecutionQueue, ExecutionState, KernelCommand, KernelStatus } from './execution'
+import { refreshIcon, stopIcon } from '@jupyterlab/ui-components'
+import { Kernel, KernelAPI } from '@jupyterlab/services'
+import { HostElection } from './election'
+import { ConnectionState, ConnectionStatus } from './connection'
+import { DocStorage } from './storage'
+import { NotebookReconciler } from './reconcile'
+import { ICheckpoint, NotebookHistory } from './history'
+import { CheckpointStore } from './checkpoints'
+import { Attribution, BlameOverlay } from './attribution'
+import { CleanNotebook } from './export'
+import { IKernelspecMetadata, ILanguageInfoMetadata, INotebookContent } from '@jupyterlab/nbformat'
+import { PathExt } from '@jupyterlab/coreutils'
+
+/**
+ * Metadata keys of a notebook that are only used locally, the kernelspec and language info are shared by the owner through the ExecutionQueue
+ */
+const NOTEBOOK_METADATA_EXCLUDED = ['rtc-id', 'rtc-doc', 'rtc-token', 'owner', 'kernelspec', 'language_info']
+
+/**
+ * Role of a participant in a shared notebook
+ */
+export type Role = 'editor' | 'viewer'
+
+/**
+ * Connected user as published in the awareness of the WebSocket provider
+ */
+export interface IParticipant {
+    clientID: number
+    name: string
+    color: string
+    role: Role
+    scope: TokenScope
+    cell: string
+    cellIndex: number
+    editing: boolean
+}
+
+/**
+ * Information about a shared notebook that is needed before joining it
+ */
+export interface ISharedNotebookInfo {
+    title: string
+    closed: boolean
+    kernelspec?: IKernelspecMetadata
+    languageInfo?: ILanguageInfoMetadata
+}
 
 /**
  * RTCNotebook class. Handles all local and remote changes to the shared notebook.
@@ -28,19 +82,69 @@ export class RTCNotebook {
     private _notebook: Notebook
     private _doc: Y.Doc
     private _cells: Y.Map<Y.Map<any>>
+    private _order: Y.Array<string>
     private _notebookID: string
     private _hubUser: string
     private _hubHost: Y.Text
     private _hosting: boolean = false
     private _ws: WebsocketProvider
+    private _persistence: IndexeddbPersistence
+    private _connectionState: ConnectionState = 'connecting'
+    private _unsynced: boolean = false
+    private _closeConfirmed: boolean = false
+    private _connectionStatus: ConnectionStatus
+    private _updateListenerFunction: (update: Uint8Array, origin: any) => void
+    private _beforeUnloadListener: (e: BeforeUnloadEvent) => void
     private _bindings: Map<string, CodemirrorBinding>
+    private _metadataBindings: Map<string, MetadataBinding>
+    private _notebookMetadata: MetadataBinding
+    private _applyingAttachments: boolean = false
+    private _outputs: SharedOutputs
+    private _pendingOutputs = new Set<string>()
+    private _loadedOutputs = new Set<string>()
+    private _loadOutputListener: (e: Event) => void
+    private _queue: ExecutionQueue
+    private _executing: boolean = false
+    private _kernelReady: Promise<any> = Promise.resolve()
+    private _kernelConnection: Promise<void> | null = null
+    private _missingKernelID: string | undefined
+    private _election: HostElection
+    private _history: NotebookHistory
+    private _attribution: Attribution
+    private _blame: BlameOverlay
+    private _blameButton: ToolbarButton
+    private _kernelStatus: KernelStatus
+    private _interruptButton: ToolbarButton
+    private _restartButton: ToolbarButton
     private _initialised: boolean = false
     private _localListenerSlot: Slot<IObservableUndoableList<ICellModel>, IObservableList.IChangedArgs<ICellModel>>
     private _localExecutionListenerSlot: Slot<any, { notebook: Notebook, cell: Cell<ICellModel> }>
     private _remoteListenerFunction: (a: Y.YEvent[], b: Y.Transaction) => void
+    private _orderListenerFunction: (e: Y.YArrayEvent<string>, t: Y.Transaction) => void
     private _hostListenerFunction: (e: Y.YTextEvent, t: Y.Transaction) => void
     private _closeHandler: MessageHook
     private _saveHandler: Slot<DocumentRegistry.IContext<INotebookModel>, DocumentRegistry.SaveState>
+    private _settings: RTCSettings
+    private _serverUrl: string
+    private _serverParams: string
+    private _synced: boolean = false
+    private _fromFile: boolean
+    private _token: string
+    private _roles: Y.Map<Role>
+    private _rolesListenerFunction: (e: Y.YMapEvent<Role>, t: Y.Transaction) => void
+    private _room: Y.Map<string | boolean>
+    private _roomListenerFunction: (e: Y.YMapEvent<string | boolean>, t: Y.Transaction) => void
+    private _statusChanged = new Signal<RTCNotebook, void>(this)
+    private _roleBadge: Widget
+    private _participantsChanged = new Signal<RTCNotebook, void>(this)
+    private _presence: PresenceIndicator
+    private _undoManager: Y.UndoManager
+    private _modelUndo: () => void
+    private _modelRedo: () => void
+    private _textUndoManagers: Map<string, Y.UndoManager>
+    private static _instances = new Map<NotebookPanel, RTCNotebook>()
+    private static _sharingChanged = new Signal<typeof RTCNotebook, NotebookPanel>(RTCNotebook)
+    private static _loading = new Map<NotebookPanel, Promise<RTCNotebook | null>>()
 
 
     /**
@@ -48,25 +152,38 @@ export class RTCNotebook {
      * @param {NotebookPanel} panel Notebookpanel hosting the notebook
      * @param {string} notebookID RTC-ID of the notebook
      * @param {string} hubUser JupyterHub username
-     * @param {string} hubHost JupyterHub host
+     * @param {RTCSettings} settings Settings of the extension
      * @param {Y.Doc} doc Shared Y.Doc
      * @param {boolean} fromFile Whether or not the notebook has been loaded from disk
+     * @param {string} token Access token for the y-websocket server
      */
-    constructor(panel: NotebookPanel, notebookID: string, hubUser: string, hubHost: string, doc: Y.Doc, fromFile: boolean) {
+    constructor(panel: NotebookPanel, notebookID: string, hubUser: string, settings: RTCSettings, doc: Y.Doc, fromFile: boolean, token?: string) {
         this._notebookID = notebookID
         this._doc = doc
         this._cells = doc.getMap('cells')
+        this._order = doc.getArray('order')
         this._bindings = new Map<string, CodemirrorBinding>()
+        this._metadataBindings = new Map<string, MetadataBinding>()
+        this._outputs = new SharedOutputs(doc, settings)
+        this._queue = new ExecutionQueue(doc)
+        this._history = new NotebookHistory(doc, settings, this._outputs, new CheckpointStore(settings, notebookID, () => this._token))
+        this._attribution = new Attribution(doc)
+        this._textUndoManagers = new Map<string, Y.UndoManager>()
         this._panel = panel
         this._notebook = panel.content as Notebook
         this._hubHost = doc.getText('host')
+        this._roles = doc.getMap('roles')
+        this._room = doc.getMap('room')
         this._hubUser = hubUser
+        this._settings = settings
+        this._fromFile = fromFile
+        this._token = token
 
-        if (hubUser === this._notebook.model.metadata.get('owner') as string) {
-            this._hosting = true
-        }
+        this._election = new HostElection(doc, hubUser, () => this.role !== 'viewer')
+        this._hosting = this._election.isHost
+        this._election.changed.connect(this.handleElection, this)
 
-        if (this._hosting || fromFile) {
+        if (this.isOwner || fromFile) {
             this._initialised = true
         }
 
@@ -74,70 +191,54 @@ export class RTCNotebook {
             this.initRemoteListener()
         }
 
-        this._ws = new WebsocketProvider(`ws://${hubHost}:1234`, this._notebookID, doc)
-
-        this._ws.awareness.setLocalStateField('user', { name: hubUser, color: Colors.random() })
-
-        this._ws.once('sync', (_synced: boolean) => {
-            if (!this._initialised) {
-                const arr: { map: Y.Map<any>, id: string }[] = new Array()
-                this._cells.forEach((map, id) => {
-                    arr.push({ map: map, id: id })
-                })
-                arr.sort((a, b) => a.map.get('position') - b.map.get('position'))
-                arr.forEach(m => {
-                    let cellModel
-                    switch (m.map.get('type')) {
-                        case 'code':
-                            cellModel = this._notebook.model.contentFactory.createCodeCell({})
-                            break;
-                        case 'markdown':
-                            cellModel = this._notebook.model.contentFactory.createMarkdownCell({})
-                            break
-                        case 'raw':
-                            cellModel = this._notebook.model.contentFactory.createRawCell({})
-                            break
-                        default:
-                            cellModel = this._notebook.model.contentFactory.createCell(this._notebook.notebookConfig.defaultCell, {})
-                            break;
-                    }
-                    cellModel.metadata.set('rtc-id', m.id)
-                    cellModel.metadata.set('xCount', m.map.get('xCount'))
-                    this._notebook.model.cells.insert(m.map.get('position'), cellModel)
-                    this.bindCell(this._notebook.widgets[m.map.get('position')])
-                })
-                // Remove last cell
-                this._notebook.model.cells.remove(this._notebook.model.cells.length - 1)
-            }
-            this.setOutputs()
-            this.initLocalListener()
-            this.initLocalExecutionListener()
-            this.hostChangeListener()
-            this.bindAllCells()
-            if (!fromFile) {
-                this.initRemoteListener()
-            }
-            if (this._ws.awareness.getStates().size === 1 && !this._hosting) {
-                this._hosting = true
-                this._hubHost.delete(0, this._hubHost.length)
-                this._hubHost.insert(0, this._hubUser)
-                this.becomeHost()
+        this.initPersistence()
+        this.requestToken().then(token => {
+            this._token = token
+            this._history.refresh()
+            if (!this._panel.isDisposed) {
+                this.connectProvider({ name: hubUser, color: this.pickColor() })
             }
+        }).catch(reason => {
+            // Without a token the notebook stays offline, local changes are kept in IndexedDB
+            this._connectionState = 'disconnected'
+            this.renderConnectionStatus()
+            showErrorMessage('Could not connect', `No access token could be obtained for this shared notebook: ${reason}`)
         })
-
+        this._settings.changed.connect(this.handleSettingsChange, this)
 
         this.initCloseHandler()
         this.initSaveHandler()
+        this.initKernelToolbar()
+        this.initConnectionStatus()
+        this.initBlame()
+        this._notebook.model.metadata.changed.connect(this.publishKernelspec, this)
+        this.publishKernelspec()
+        this._panel.context.pathChanged.connect(this.publishTitle, this)
+        this.publishTitle()
+        this.initRoleListener()
+        this.initRoomListener()
+        this._notebook.activeCellChanged.connect(this.handleActiveCellChange, this)
+        this._notebook.stateChanged.connect(this.handleActiveCellChange, this)
+        this._presence = new PresenceIndicator(this._notebook)
+        // Only track structural changes made through the local listener, see initLocalListener
+        this._undoManager = new Y.UndoManager([this._cells, this._order], { trackedOrigins: new Set([this]) })
+        this.initUndo()
+        this._notebook.addClass('rtc-shared')
+        this._notebook.model.cells.changed.connect(this.renderPresence, this)
+        this._loadOutputListener = e => this.loadOutput(e as CustomEvent<string>)
+        this._notebook.node.addEventListener(LOAD_OUTPUT_EVENT, this._loadOutputListener)
+        RTCNotebook._instances.set(panel, this)
+        RTCNotebook._sharingChanged.emit(panel)
     }
 
     /**
      * 
      * @param {NotebookPanel} panel Notebookpanel hosting the notebook
-     * @param {string} hubHost JupyterHub host
+     * @param {RTCSettings} settings Settings of the extension
      * @param {string} hubUser JupyterHub username 
      * @returns 
      */
-    static createNew(panel: NotebookPanel, hubHost: string, hubUser: string): RTCNotebook {
+    static createNew(panel: NotebookPanel, settings: RTCSettings, hubUser: string): RTCNotebook {
 
         const newID = uuid().toString()
         panel.content.model.metadata.set('rtc-id', newID)
@@ -147,73 +248,205 @@ export class RTCNotebook {
         panel.context.save()
 
         const doc = new Y.Doc()
+        if (hubUser) {
+            // The owner never changes, unlike the host
+            doc.getMap('room').set('owner', hubUser)
+        }
         doc.getText('host').insert(0, hubUser)
+        HostElection.initialise(doc, hubUser)
         const cells = doc.getMap('cells') as Y.Map<Y.Map<any>>
-        panel.content.widgets.forEach((cell, i) => {
+        const order = doc.getArray('order') as Y.Array<string>
+        MetadataBinding.fill(doc.getMap('metadata'), panel.content.model.metadata, NOTEBOOK_METADATA_EXCLUDED)
+        const sharedOutputs = new SharedOutputs(doc, settings)
+        panel.content.widgets.forEach(cell => {
             const cellID = uuid().toString()
             cell.model.metadata.set('rtc-id', cellID)
             cell.model.metadata.set('xCount', 0)
             const metadata = new Y.Map as Y.Map<any>
             metadata.set('type', cell.model.type)
             metadata.set('xCount', 0)
-            metadata.set('output', new Array())
-            metadata.set('position', i)
+            metadata.set('output', new Y.Array)
+            metadata.set('metadata', MetadataBinding.fill(new Y.Map, cell.model.metadata, CELL_METADATA_EXCLUDED))
+            if (cell.model.type !== 'code') {
+                metadata.set('attachments', (cell.model as IAttachmentsCellModel).attachments.toJSON())
+            }
             cells.set(cellID, metadata)
+            order.push([cellID])
             const text = doc.getText(cellID)
             text.insert(0, cell.model.value.text)
 
             if (cell.model.type === 'code') {
-                const outputs = new Array() as Array<IOutput>
-                const codeCell = cell as CodeCell
-                for (let index = 0; index < codeCell.outputArea.model.length; index++) {
-        
-                    const o = codeCell.outputArea.model.get(index) as IOutputModel;
-                    outputs.push(o.toJSON())
-                }
-                metadata.set('output', outputs)
+                sharedOutputs.write(metadata.get('output'), (cell as CodeCell).outputArea.model.toJSON())
             }
         })
-        return new RTCNotebook(panel, newID, hubUser, hubHost, doc, false)
+        return new RTCNotebook(panel, newID, hubUser, settings, doc, false)
     }
 
     /**
      * 
      * @param {NotebookPanel} panel Notebookpanel hosting the notebook
      * @param {string} notebookID ID of the shared notebook
-     * @param {string} hubHost JupyterHub host
+     * @param {RTCSettings} settings Settings of the extension
      * @param {string} hubUser JupyterHub username
+     * @param {string} token Access token received from the owner
      * @returns 
      */
-    static connect(panel: NotebookPanel, notebookID: string, hubHost: string, hubUser: string): RTCNotebook {
+    static connect(panel: NotebookPanel, notebookID: string, settings: RTCSettings, hubUser: string, token?: string): RTCNotebook {
         panel.sessionContext.ready.then(() => {
-            // Shutdown context cause we will use 'shared' kernel
-            panel.sessionContext.shutdown().then(() => {
-                // Set kernel name to 'Shared'
-                const kernelNameButton = panel.toolbar.node.getElementsByClassName('jp-KernelName')[0]
-                const kernelText = kernelNameButton.getElementsByClassName('jp-ToolbarButtonComponent-label')[0] as HTMLElement
-                kernelText.innerText = 'Shared Kernel'
-            })
+            if (settings.executionMode === 'server') {
+                // The session connects to the shared kernel of the Jupyter server after the initial sync
+                return
+            }
+            // Shutdown context cause we will use 'shared' kernel, its name is shown by the KernelStatus toolbar item
+            panel.sessionContext.shutdown()
         })
         const doc = new Y.Doc()
-        return new RTCNotebook(panel, notebookID, hubUser, hubHost, doc, false)
+        return new RTCNotebook(panel, notebookID, hubUser, settings, doc, false, token)
     }
 
     /**
      * 
      * @param {NotebookPanel} panel Notebookpanel hosting the notebook
      * @param {string} notebookID ID of the shared notebook
-     * @param {string} hubHost JupyterHub host
+     * @param {RTCSettings} settings Settings of the extension
      * @param {string} hubUser JupyterHub username
-     * @returns 
+     * @returns {Promise<RTCNotebook | null>} Null if the user cancelled the reconciliation of the notebook file with the shared document
+     */
+    static load(panel: NotebookPanel, notebookID: string, settings: RTCSettings, hubUser: string): Promise<RTCNotebook | null> {
+        // The notebook may be loaded from several places at once, e.g. when it is reopened automatically
+        if (RTCNotebook._instances.has(panel)) {
+            return Promise.resolve(RTCNotebook._instances.get(panel))
+        }
+        if (!RTCNotebook._loading.has(panel)) {
+            const loading = RTCNotebook.loadDoc(panel, notebookID, settings, hubUser)
+            RTCNotebook._loading.set(panel, loading)
+            const done = () => { RTCNotebook._loading.delete(panel) }
+            loading.then(done, done)
+        }
+        return RTCNotebook._loading.get(panel)
+    }
+
+    /**
+     * Reconciles the notebook file with the shared document stored in it and connects it
+     * @param {NotebookPanel} panel Notebookpanel hosting the notebook
+     * @param {string} notebookID ID of the shared notebook
+     * @param {RTCSettings} settings Settings of the extension
+     * @param {string} hubUser JupyterHub username
+     * @returns {Promise<RTCNotebook | null>}
      */
-    static load(panel: NotebookPanel, notebookID: string, hubHost: string, hubUser: string): RTCNotebook {
+    private static loadDoc(panel: NotebookPanel, notebookID: string, settings: RTCSettings, hubUser: string): Promise<RTCNotebook | null> {
         const notebook = panel.content as Notebook
-        const str = notebook.model.metadata.get("rtc-doc") as string
-        const arr = JSON.parse(str)
-        const state = new Uint8Array(arr)
+        const state = DocStorage.decode(notebook.model.metadata.get('rtc-doc') as string)
         const doc = new Y.Doc()
         Y.applyUpdateV2(doc, state)
-        return new RTCNotebook(panel, notebookID, hubUser, hubHost, doc, true)
+        RTCNotebook.migrateOrder(doc)
+        RTCNotebook.migrateOwner(doc, notebook.model.metadata.get('owner') as string)
+        const token = notebook.model.metadata.get('rtc-token') as string
+        // The file may have been edited outside the session
+        const reconciler = new NotebookReconciler(notebook.model, doc, new SharedOutputs(doc, settings))
+        return reconciler.resolve().then(resolved => {
+            if (!resolved || panel.isDisposed) {
+                return null
+            }
+            return new RTCNotebook(panel, notebookID, hubUser, settings, doc, true, token)
+        })
+    }
+
+    /**
+     * Reads the title and kernelspec of a shared notebook, and whether the owner stopped sharing it, from the y-websocket server without joining it
+     * @param {string} notebookID ID of the shared notebook
+     * @param {RTCSettings} settings Settings of the extension
+     * @param {string} token Access token received from the owner
+     * @returns {Promise<ISharedNotebookInfo>} An empty title if it is unknown or the server could not be reached in time
+     */
+    static fetchInfo(notebookID: string, settings: RTCSettings, token?: string): Promise<ISharedNotebookInfo> {
+        const doc = new Y.Doc()
+        const queue = new ExecutionQueue(doc)
+        const params = settings.params
+        if (token) {
+            params['token'] = token
+        }
+        const provider = new WebsocketProvider(settings.serverUrl, notebookID, doc, { params: params })
+        return new Promise<ISharedNotebookInfo>(resolve => {
+            const done = () => {
+                clearTimeout(timer)
+                const info: ISharedNotebookInfo = {
+                    title: doc.getText('title').toString(),
+                    closed: !!doc.getMap('room').get('closed'),
+                    kernelspec: queue.kernelspec,
+                    languageInfo: queue.languageInfo
+                }
+                provider.destroy()
+                queue.dispose()
+                doc.destroy()
+                resolve(info)
+            }
+            const timer = setTimeout(done, 10000)
+            provider.on('sync', (synced: boolean) => {
+                if (synced) {
+                    done()
+                }
+            })
+        })
+    }
+
+    /**
+     * Converts a document created by an older version, in which each cell stored its position, to a document with a cell order.
+     * @param {Y.Doc} doc Shared Y.Doc
+     */
+    static migrateOrder(doc: Y.Doc) {
+        const cells = doc.getMap('cells') as Y.Map<Y.Map<any>>
+        const order = doc.getArray('order') as Y.Array<string>
+        if (order.length > 0 || cells.size === 0) {
+            return
+        }
+        const ids = Array.from(cells.keys())
+        ids.sort((a, b) => cells.get(a).get('position') - cells.get(b).get('position'))
+        order.push(ids)
+    }
+
+    /**
+     * Stores the owner of a document created by an older version, which only recorded it in the notebook metadata, in the shared document.
+     * @param {Y.Doc} doc Shared Y.Doc
+     * @param {string} owner Owner recorded in the notebook metadata
+     */
+    static migrateOwner(doc: Y.Doc, owner: string) {
+        const room = doc.getMap('room')
+        if (owner && !room.get('owner')) {
+            room.set('owner', owner)
+        }
+    }
+
+    /**
+     * Returns the RTCNotebook that is connected to the given panel
+     * @param {NotebookPanel} panel Notebookpanel hosting the notebook
+     * @returns {RTCNotebook | undefined}
+     */
+    static find(panel: NotebookPanel): RTCNotebook | undefined {
+        return RTCNotebook._instances.get(panel)
+    }
+
+    /**
+     * Returns the panel that is connected to the given shared notebook
+     * @param {string} notebookID ID of the shared notebook
+     * @returns {NotebookPanel | undefined}
+     */
+    static findPanel(notebookID: string): NotebookPanel | undefined {
+        return Array.from(RTCNotebook._instances.keys()).find(panel => RTCNotebook._instances.get(panel).notebookID === notebookID)
+    }
+
+    /**
+     * Picks the user colors of all shared notebooks again, e.g. after the theme changed
+     */
+    static refreshColors() {
+        RTCNotebook._instances.forEach(notebook => notebook.updateColor())
+    }
+
+    /**
+     * Signal emitted when a notebook starts or stops being shared
+     */
+    static get sharingChanged(): ISignal<typeof RTCNotebook, NotebookPanel> {
+        return RTCNotebook._sharingChanged
     }
 
     /**
@@ -222,20 +455,398 @@ export class RTCNotebook {
      */
     close() {
         this._bindings.forEach(binding => {
-            binding.destroy
+            binding.destroy()
         })
         this._bindings.clear()
+        this._metadataBindings.forEach(binding => binding.destroy())
+        this._metadataBindings.clear()
+        if (this._notebookMetadata) {
+            this._notebookMetadata.destroy()
+        }
         this.disconnectListeners()
-        this._ws.destroy()
+        if (this._ws) {
+            this._ws.destroy()
+        }
+        this._persistence.destroy()
+        this._doc.off('update', this._updateListenerFunction)
+        window.removeEventListener('beforeunload', this._beforeUnloadListener)
+        this._connectionStatus.dispose()
+        this._roleBadge.dispose()
+        this._kernelStatus.dispose()
+        this._interruptButton.dispose()
+        this._restartButton.dispose()
+        this._queue.dispose()
+        this._election.dispose()
+        this._history.dispose()
+        this._attribution.dispose()
+        this._blame.dispose()
+        this._blameButton.dispose()
+        this._presence.clear()
+        this._notebook.model.sharedModel.undo = this._modelUndo
+        this._notebook.model.sharedModel.redo = this._modelRedo
+        this._undoManager.destroy()
+        this._textUndoManagers.forEach(undoManager => undoManager.destroy())
+        this._textUndoManagers.clear()
+        this._notebook.removeClass('rtc-shared')
+        this._notebook.node.removeEventListener(LOAD_OUTPUT_EVENT, this._loadOutputListener)
+        RTCNotebook._instances.delete(this._panel)
+        RTCNotebook._sharingChanged.emit(this._panel)
+        Signal.clearData(this)
 
     }
     
+    /**
+     * Interrupts the kernel of the hosting client
+     */
+    public interruptKernel() {
+        this.sendKernelCommand('interrupt')
+    }
+
+    /**
+     * Restarts the kernel of the hosting client
+     */
+    public restartKernel() {
+        this.sendKernelCommand('restart')
+    }
+
     /**
      * Returns the RTC-ID for this notebook
      */
     public get notebookID() : string {
         return this._notebookID
     }
+
+    /**
+     * Returns the name of the notebook file of the owner
+     */
+    public get title(): string {
+        return this._doc.getText('title').toString()
+    }
+
+    /**
+     * Returns the checkpoints of the shared notebook
+     */
+    public get history(): NotebookHistory {
+        return this._history
+    }
+
+    /**
+     * Stores a checkpoint of the current state of the shared notebook
+     * @param {string} label Description of the checkpoint
+     * @returns {Promise<void>}
+     */
+    public createCheckpoint(label: string): Promise<void> {
+        return this._history.checkpoint(this._hubUser, label)
+    }
+
+    /**
+     * Restores the whole notebook or a single cell to a checkpoint as a new change
+     * @param {ICheckpoint} checkpoint Checkpoint to restore
+     * @param {string} cellID ID of the cell to restore, the whole notebook is restored if omitted
+     * @returns {Promise<void>}
+     */
+    public restoreCheckpoint(checkpoint: ICheckpoint, cellID?: string): Promise<void> {
+        if (this.role === 'viewer' || !this._synced) {
+            return Promise.resolve()
+        }
+        return this._history.restore(checkpoint, cellID).then(restored => {
+            if (this._hosting && this._settings.executionMode !== 'server') {
+                // The host ignores changes of the shared outputs
+                restored.forEach(id => this.handleOutputChange(id))
+            }
+        })
+    }
+
+    /**
+     * Returns the content of the shared notebook without the metadata of the extension,
+     * with the full outputs and execution counts of the shared document
+     * @returns {INotebookContent}
+     */
+    public exportNotebook(): INotebookContent {
+        const content = this._notebook.model.toJSON() as INotebookContent
+        content.cells.forEach(cell => {
+            const shared = this._cells.get(cell.metadata['rtc-id'] as string)
+            if (cell.cell_type === 'code' && shared) {
+                cell.outputs = this._outputs.readFull(shared.get('output'))
+                const tag = shared.get('tag')
+                if (typeof tag === 'number') {
+                    cell.execution_count = tag
+                }
+            }
+        })
+        return CleanNotebook.strip(content)
+    }
+
+    /**
+     * Stops sharing the notebook for the local user. Disconnects, removes the metadata of the extension from the notebook
+     * and the shared document from the browser storage. The notebook keeps its current content.
+     */
+    public unshare() {
+        this.leave(true)
+    }
+
+    /**
+     * Closes the shared notebook for all participants, they keep their current copy as a regular notebook.
+     * Only the owner can stop sharing, and only while connected so the other participants are told.
+     * @returns {boolean} Whether sharing was stopped
+     */
+    public stopSharing(): boolean {
+        if (!this.isOwner || !this.isConnected) {
+            return false
+        }
+        this._doc.transact(() => this._room.set('closed', true), this)
+        this.leave(false)
+        return true
+    }
+
+    /**
+     * Moves the shared notebook to a new id, so past invitations no longer grant access.
+     * The old id is closed for all participants, the owner continues with a copy of the shared document under the new id.
+     * @returns {RTCNotebook | null} The shared notebook under the new id, null if the id could not be changed
+     */
+    public regenerateID(): RTCNotebook | null {
+        if (!this.isOwner || !this.isConnected) {
+            return null
+        }
+        const state = Y.encodeStateAsUpdateV2(this._doc)
+        this._doc.transact(() => this._room.set('closed', true), this)
+        const persistence = this._persistence
+        this.close()
+        persistence.clearData()
+
+        const doc = new Y.Doc()
+        Y.applyUpdateV2(doc, state)
+        doc.transact(() => {
+            // Roles were granted to participants of the old id
+            const roles = doc.getMap('roles')
+            Array.from(roles.keys()).forEach(user => roles.delete(user))
+            // The checkpoints stored on the y-websocket server remain under the old id
+            NotebookHistory.dropServerCheckpoints(doc)
+            const host = doc.getText('host')
+            host.delete(0, host.length)
+            host.insert(0, this._hubUser)
+            HostElection.initialise(doc, this._hubUser)
+        })
+        const newID = uuid().toString()
+        const metadata = this._notebook.model.metadata
+        metadata.set('rtc-id', newID)
+        metadata.delete('rtc-token')
+        metadata.set('rtc-doc', DocStorage.encode(doc, this._settings.compactOnSave))
+        this._panel.context.save()
+        return new RTCNotebook(this._panel, newID, this._hubUser, this._settings, doc, true)
+    }
+
+    /**
+     * Disconnects from the shared notebook and removes the metadata of the extension and the browser storage
+     * @param {boolean} handoff Whether a new host has to be elected for the remaining participants
+     */
+    private leave(handoff: boolean) {
+        if (!this._hosting) {
+            // Replace the placeholders of large outputs while the shared document is still available
+            this._notebook.widgets.forEach(cell => {
+                const shared = this._cells.get(cell.model.metadata.get('rtc-id') as string)
+                if (cell.model.type === 'code' && shared) {
+                    this._outputs.apply((cell as CodeCell).outputArea.model, this._outputs.readFull(shared.get('output')))
+                }
+            })
+        }
+        else if (handoff) {
+            this._election.handoff()
+        }
+        const persistence = this._persistence
+        this.close()
+        persistence.clearData()
+        CleanNotebook.stripModel(this._notebook.model)
+    }
+
+    /**
+     * Returns whether the text of the cells is colored by author
+     */
+    public get blameVisible(): boolean {
+        return this._blame.enabled
+    }
+
+    /**
+     * Shows or hides the colors of the authors in the cell editors
+     */
+    public toggleBlame() {
+        this._blame.enabled = !this._blame.enabled
+        this._blameButton.pressed = this._blame.enabled
+    }
+
+    /**
+     * Undo the last structural change (cell addition, deletion, move or type change) made by the local user
+     */
+    public undo() {
+        this._undoManager.undo()
+    }
+
+    /**
+     * Redo the last structural change undone by the local user
+     */
+    public redo() {
+        this._undoManager.redo()
+    }
+
+    /**
+     * Routes the undo and redo of the notebook through the undo manager of the local user.
+     * The notebook's undo and redo commands, from the keyboard, the Edit menu, the palette or the toolbar, all end up in its shared model.
+     */
+    private initUndo() {
+        const sharedModel = this._notebook.model.sharedModel
+        this._modelUndo = sharedModel.undo
+        this._modelRedo = sharedModel.redo
+        sharedModel.undo = () => this.undo()
+        sharedModel.redo = () => this.redo()
+    }
+
+    /**
+     * Returns the permission granted to the local user
+     */
+    public get scope(): TokenScope {
+        const payload = RTCToken.decode(this._token)
+        return payload ? payload.scope : 'write'
+    }
+
+    /**
+     * Returns the role of the local user.
+     * The owner is always an editor and a view-only token always makes a viewer, as the server drops its changes.
+     * Other users get the role assigned by the owner.
+     */
+    public get role(): Role {
+        if (this.isOwner) {
+            return 'editor'
+        }
+        if (this.scope === 'read') {
+            return 'viewer'
+        }
+        return this._roles.get(this._hubUser) || 'editor'
+    }
+
+    /**
+     * Returns the JupyterHub username of the user that shared the notebook, empty until it is known
+     */
+    public get owner(): string {
+        return this._room.get('owner') as string || ''
+    }
+
+    /**
+     * Returns whether the local user owns this notebook
+     */
+    public get isOwner(): boolean {
+        return !!this._hubUser && this.owner === this._hubUser
+    }
+
+    /**
+     * Returns all users connected to the shared notebook
+     */
+    public get participants(): IParticipant[] {
+        const participants: IParticipant[] = []
+        if (!this._ws) {
+            return participants
+        }
+        this._ws.awareness.getStates().forEach((state, clientID) => {
+            if (state.user) {
+                participants.push({
+                    clientID: clientID,
+                    name: state.user.name,
+                    color: state.user.color,
+                    role: state.role || 'editor',
+                    scope: state.scope || 'write',
+                    cell: state.cell,
+                    cellIndex: this.findCellIndex(state.cell),
+                    editing: !!state.editing
+                })
+            }
+        })
+        return participants
+    }
+
+    /**
+     * Signal emitted when a participant joins, leaves or changes its state, or when the host changes
+     */
+    public get participantsChanged(): ISignal<RTCNotebook, void> {
+        return this._participantsChanged
+    }
+
+    /**
+     * Returns the state of the connection with the y-websocket server
+     */
+    public get connectionState(): ConnectionState {
+        return this._connectionState
+    }
+
+    /**
+     * Returns whether the shared notebook is connected and in sync with the y-websocket server
+     */
+    public get isConnected(): boolean {
+        return this._connectionState === 'connected' && !!this._ws && this._ws.synced
+    }
+
+    /**
+     * Returns whether there are local changes the y-websocket server has not received yet
+     */
+    public get hasUnsyncedChanges(): boolean {
+        return this._unsynced
+    }
+
+    /**
+     * Signal emitted when the connection with the y-websocket server changes
+     */
+    public get statusChanged(): ISignal<RTCNotebook, void> {
+        return this._statusChanged
+    }
+
+    /**
+     * Returns the awareness id of the local client
+     */
+    public get clientID(): number {
+        return this._ws ? this._ws.awareness.clientID : undefined
+    }
+
+    /**
+     * Returns the JupyterHub username of the user hosting the kernel
+     */
+    public get host(): string {
+        return this._hubHost.toString()
+    }
+
+    /**
+     * Returns the awareness id of the client hosting the kernel, undefined while no host is confirmed
+     */
+    public get hostClientID(): number | undefined {
+        const host = this._election.host
+        return host && host.confirmed ? host.clientID : undefined
+    }
+
+    /**
+     * Activates the given cell and scrolls it into view
+     * @param {string} cellID ID of the cell
+     */
+    public jumpTo(cellID: string) {
+        const index = this.findCellIndex(cellID)
+        if (index === -1) {
+            return
+        }
+        this._notebook.activeCellIndex = index
+        this._notebook.scrollToCell(this._notebook.widgets[index])
+    }
+
+    /**
+     * Change the role of a user. Only the owner is allowed to promote or demote participants.
+     * Participants connected with a view-only token cannot be promoted, the server drops their changes.
+     * @param {string} user JupyterHub username of the participant
+     * @param {Role} role New role of the participant
+     */
+    public setRole(user: string, role: Role) {
+        if (!this.isOwner || user === this._hubUser) {
+            return
+        }
+        if (role === 'editor' && this.participants.some(participant => participant.name === user && participant.scope === 'read')) {
+            return
+        }
+        this._roles.set(user, role)
+    }
     
     /**
      * Initialises the handler that is called upon closing the notebook.
@@ -243,9 +854,18 @@ export class RTCNotebook {
      */
     private initCloseHandler() {
         this._closeHandler = (_h, m) => {
+            if (m.type === 'close-request' && this._unsynced && !this._closeConfirmed) {
+                this.showUnsyncedDialog().then(result => {
+                    if (result.button.accept) {
+                        this._closeConfirmed = true
+                        this._panel.close()
+                    }
+                })
+                return false
+            }
             if (m.type === 'close-request' && !this._panel.context.model.dirty) {
                 if (this._hosting) {
-                    this.handleHostChange()
+                    this._election.handoff()
                 }
                 this.close()
                 this._panel.dispose()
@@ -253,19 +873,19 @@ export class RTCNotebook {
             }
             else if (m.type === 'close-request') {
                 this.showSaveDialog().then(result => {
+                    this._closeConfirmed = false
                     if (result.button.actions[0] === 'discard') {
                         if (this._hosting) {
-                            this.handleHostChange()
+                            this._election.handoff()
                         }
                         this.close()
                         this._panel.dispose()
                         return false
                     }
                     if (result.button.accept) {
-                        const state = Y.encodeStateAsUpdateV2(this._doc)
-                        this._notebook.model.metadata.set('rtc-doc', JSON.stringify(Array.from(state)))
+                        this.storeDoc()
                         if (this._hosting) {
-                            this.handleHostChange()
+                            this._election.handoff()
                         }
                         this._panel.context.save().then(() => {
                             this.close()
@@ -289,21 +909,224 @@ export class RTCNotebook {
 
         this._saveHandler = (_sender, args) => {
             if (args === 'started') {
-                const state = Y.encodeStateAsUpdateV2(this._doc)
-                this._notebook.model.metadata.set('rtc-doc', JSON.stringify(Array.from(state)))
+                this.storeDoc()
             }
         }
         this._panel.context.saveState.connect(this._saveHandler, this)
     }
 
-
     /**
-     * Set the ouput for each cell if available.
+     * Writes the state of the Y.Doc to the notebook's metadata
      */
-    private setOutputs() {
-        this._notebook.widgets.forEach(cell => {
+    private storeDoc() {
+        this._notebook.model.metadata.set('rtc-doc', DocStorage.encode(this._doc, this._settings.compactOnSave))
+    }
+
+
+    /**
+     * Creates the WebSocket provider for the shared document with the current server settings.
+     * @param {{ name: string, color: string }} user Awareness information of the local user
+     */
+    private connectProvider(user: { name: string, color: string }) {
+        this._serverUrl = this._settings.serverUrl
+        this._serverParams = JSON.stringify(this._settings.params)
+        const params = this._settings.params
+        if (this._token) {
+            params['token'] = this._token
+        }
+        this._ws = new WebsocketProvider(this._serverUrl, this._notebookID, this._doc, { params: params })
+        this._ws.awareness.setLocalStateField('user', user)
+        this._ws.awareness.setLocalStateField('role', this.role)
+        this._ws.awareness.setLocalStateField('scope', this.scope)
+        this.handleActiveCellChange()
+        this._ws.awareness.on('change', () => {
+            this.updateColor()
+            this.renderPresence()
+            this._participantsChanged.emit()
+        })
+        this._ws.once('sync', (_synced: boolean) => {
+            this.handleInitialSync()
+            // Only take part in the election once the current host is known
+            this._election.connect(this._ws.awareness)
+        })
+        this._ws.on('status', (event: { status: ConnectionState }) => {
+            this._connectionState = event.status
+            this.renderConnectionStatus()
+        })
+        this._ws.on('sync', (synced: boolean) => {
+            if (synced) {
+                // Changes made while offline have been exchanged during the sync
+                this._unsynced = false
+            }
+            this.renderConnectionStatus()
+        })
+        this._ws.on('connection-close', (event: CloseEvent) => {
+            if (event && (event.code === CLOSE_INVALID_TOKEN || event.code === CLOSE_FORBIDDEN)) {
+                // Stop reconnecting, the server will keep refusing this token
+                this._ws.disconnect()
+                showErrorMessage('Access denied', event.reason || 'The server refused the connection to this shared notebook.')
+            }
+        })
+    }
+
+    /**
+     * Stores the Y.Doc in IndexedDB, so changes made while offline survive a reload and are merged once the connection is restored.
+     * Local changes made without a synced connection are tracked to warn the user before closing.
+     */
+    private initPersistence() {
+        this._persistence = new IndexeddbPersistence(`rtc-${this._notebookID}`, this._doc)
+        this._updateListenerFunction = (_update, origin) => {
+            if (origin === this._ws || origin === this._persistence) {
+                return
+            }
+            if (!this._ws || !this._ws.wsconnected || !this._ws.synced) {
+                this._unsynced = true
+                this.renderConnectionStatus()
+            }
+        }
+        this._doc.on('update', this._updateListenerFunction)
+        this._beforeUnloadListener = e => {
+            if (this._unsynced) {
+                e.preventDefault()
+                e.returnValue = ''
+            }
+        }
+        window.addEventListener('beforeunload', this._beforeUnloadListener)
+    }
+
+    /**
+     * Initialises the toolbar item showing the connection with the y-websocket server
+     */
+    private initConnectionStatus() {
+        this._connectionStatus = new ConnectionStatus()
+        this._panel.toolbar.addItem('rtc-connection-status', this._connectionStatus)
+        this.renderConnectionStatus()
+    }
+
+    /**
+     * Records the local user as author of its changes and initialises the blame overlay with its toolbar button
+     */
+    private initBlame() {
+        this._attribution.register(this._hubUser, () => this.role !== 'viewer')
+        this._blame = new BlameOverlay(this._notebook, this._doc, this._attribution, user => {
+            const participant = this.participants.find(p => p.name === user)
+            return participant ? participant.color : undefined
+        })
+        // Colors change when users join or leave, other changes of the participants are ignored
+        let colors = ''
+        this._participantsChanged.connect(() => {
+            const current = this.participants.map(p => `${p.name}:${p.color}`).sort().join()
+            if (current !== colors) {
+                colors = current
+                if (this._blame.enabled) {
+                    this._blame.render()
+                }
+            }
+        })
+        this._blameButton = new ToolbarButton({
+            label: 'Blame',
+            tooltip: 'Color the text of the cells by author',
+            pressedTooltip: 'Hide the authors of the text',
+            onClick: () => this.toggleBlame()
+        })
+        this._panel.toolbar.addItem('rtc-blame', this._blameButton)
+        this._blame.render()
+    }
+
+    /**
+     * Shows the current connection state and whether there are unsynced changes
+     */
+    private renderConnectionStatus() {
+        if (this._connectionStatus) {
+            this._connectionStatus.render(this._connectionState, !!this._ws && this._ws.synced, this._unsynced)
+        }
+        this._statusChanged.emit()
+    }
+
+    /**
+     * Returns the access token used to connect to the y-websocket server.
+     * The owner requests a new token from the server when authentication is enabled, other users use the token they received.
+     * @returns {Promise<string>}
+     */
+    private requestToken(): Promise<string> {
+        if (this.isOwner && this._settings.authentication) {
+            return RTCToken.request(this._settings.httpUrl, this._notebookID, 'write', this._settings.tokenLifetime)
+        }
+        return Promise.resolve(this._token)
+    }
+
+    /**
+     * Reconnects to the y-websocket server after the server settings have changed.
+     */
+    private handleSettingsChange() {
+        if (!this._ws) {
+            return
+        }
+        this.updateColor()
+        const params = JSON.stringify(this._settings.params)
+        if (this._serverUrl === this._settings.serverUrl && this._serverParams === params) {
+            return
+        }
+        const user = this._ws.awareness.getLocalState().user
+        this._ws.destroy()
+        this.connectProvider(user)
+        // Bindings are tied to the awareness of the old provider
+        this._notebook.widgets.forEach(cell => {
+            const cellID = cell.model.metadata.get('rtc-id') as string
+            if (this._bindings.has(cellID)) {
+                this._bindings.get(cellID).destroy()
+                this._bindings.set(cellID, this.createBinding(cellID, cell.editor as CodeMirrorEditor))
+            }
+        })
+    }
+
+    /**
+     * Handles the first synchronisation with the y-websocket server.
+     * Builds the notebook from the shared document when joining and initialises all listeners.
+     */
+    private handleInitialSync() {
+        if (this._synced) {
+            return
+        }
+        this._synced = true
+        RTCNotebook.migrateOrder(this._doc)
+        if (!this._initialised) {
+            this.cellOrder().forEach((id, position) => {
+                const cellModel = this.createCellModel(this._cells.get(id).get('type'))
+                cellModel.metadata.set('rtc-id', id)
+                cellModel.metadata.set('xCount', this._cells.get(id).get('xCount'))
+                this._notebook.model.cells.insert(position, cellModel)
+                this.bindCell(this._notebook.widgets[position])
+            })
+            // Remove last cell
+            this._notebook.model.cells.remove(this._notebook.model.cells.length - 1)
+        }
+        this.setOutputs()
+        this.initLocalListener()
+        this.initLocalExecutionListener()
+        this.hostChangeListener()
+        this.bindAllCells()
+        this.bindNotebookMetadata()
+        if (!this._fromFile) {
+            this.initRemoteListener()
+        }
+        if (this._settings.executionMode === 'server') {
+            this._kernelReady = this.connectSharedKernel()
+        }
+        this.publishKernelStatus()
+        this._history.startPeriodic(this._hubUser, () => this._hosting)
+    }
+
+    /**
+     * Set the ouput for each cell if available.
+     * The hosting client keeps its own outputs, the shared outputs may only contain a placeholder of large outputs.
+     */
+    private setOutputs() {
+        this._notebook.widgets.forEach(cell => {
             const id = cell.model.metadata.get('rtc-id') as string
-            this.handleOutputChange(id)
+            if (!this._hosting) {
+                this.handleOutputChange(id)
+            }
             if (this._cells.get(id).get('tag')) {
                 cell.setPrompt(this._cells.get(id).get('tag'))
             }
@@ -311,17 +1134,23 @@ export class RTCNotebook {
     }
 
     /**
-     * Change the host to a randomly selected client (if other clients are connected)
+     * Starts or stops executing cells when the elected host changes.
+     * A new host re-queues the requests that were still running on the previous host.
      */
-    private handleHostChange() {
-        const states = Array.from(this._ws.awareness.states.keys())
-        if (states.length > 1) {
-            states.splice(states.indexOf(this._ws.awareness.clientID), 1)
-            const randomHost = states[Math.floor(Math.random() * states.length)]
-            const hostName = this._ws.awareness.states.get(randomHost).user.name
-            this._hubHost.delete(0, this._hubHost.length)
-            this._hubHost.insert(0, hostName)
+    private handleElection() {
+        const isHost = this._election.isHost
+        if (isHost && !this._hosting) {
+            if (this._hubHost.toString() !== this._hubUser) {
+                this._hubHost.delete(0, this._hubHost.length)
+                this._hubHost.insert(0, this._hubUser)
+            }
+            this._queue.requeue()
+            this.becomeHost()
         }
+        else if (!isHost && this._hosting) {
+            this._hosting = false
+        }
+        this._participantsChanged.emit()
     }
 
     /**
@@ -330,94 +1159,78 @@ export class RTCNotebook {
     private disconnectListeners() {
         this._notebook.model.cells.changed.disconnect(this._localListenerSlot, this)
         this._cells.unobserveDeep(this._remoteListenerFunction)
+        this._order.unobserve(this._orderListenerFunction)
         this._doc.getText('host').unobserve(this._hostListenerFunction)
         if (this._localExecutionListenerSlot) {
             NotebookActions.executed.disconnect(this._localExecutionListenerSlot, this)
         }
         MessageLoop.removeMessageHook(this._panel, this._closeHandler)
         this._panel.context.saveState.disconnect(this._saveHandler, this)
+        this._settings.changed.disconnect(this.handleSettingsChange, this)
+        this._roles.unobserve(this._rolesListenerFunction)
+        this._room.unobserve(this._roomListenerFunction)
+        this._notebook.activeCellChanged.disconnect(this.handleActiveCellChange, this)
+        this._notebook.stateChanged.disconnect(this.handleActiveCellChange, this)
+        this._notebook.model.cells.changed.disconnect(this.renderPresence, this)
+        this._queue.changed.disconnect(this.handleQueueChange, this)
+        this._panel.sessionContext.statusChanged.disconnect(this.publishKernelStatus, this)
+        this._notebook.model.metadata.changed.disconnect(this.publishKernelspec, this)
+        this._panel.context.pathChanged.disconnect(this.publishTitle, this)
     }
 
     /**
      * Initialises the remote listener.
-     * The function will attach a listener to the cellmap (Y.Map) and handle all incoming changes. 
+     * The function will attach a listener to the cellmap (Y.Map) to handle changes of cell properties,
+     * and a listener to the cell order (Y.Array) to handle additions, deletions and moves.
      */
     private initRemoteListener() {
-        this._remoteListenerFunction = (e: Y.YEvent[], t) => {
-            if (t.origin) {
+        this._remoteListenerFunction = (e: Y.YEvent<any>[], t) => {
+            // Local changes have no origin or this notebook as origin, undo operations are applied like remote changes
+            if (t.origin && t.origin !== this) {
+                const outputs = new Set<string>()
                 e.forEach(event => {
-                    const mapEvent = event as Y.YMapEvent<Y.Map<any>>
-                    if (mapEvent.path.length > 0) {
-                        // Cell property changed
+                    const mapEvent = event as Y.YMapEvent<any>
+                    if (mapEvent.path.length > 1 && mapEvent.path[1] === 'output') {
+                        // Output appended or replaced
+                        outputs.add(mapEvent.path[0] as string)
+                    }
+                    else if (mapEvent.path.length === 1) {
+                        // Cell property changed, changes within the metadata of a cell are handled by its MetadataBinding
                         const change = mapEvent.changes.keys.keys().next().value
                         switch (change) {
-                            case 'position':
-                                this.handleMoveUpdate(mapEvent)
-                                break
                             case 'type':
-                                this.switchType(mapEvent)
-                                break
-                            case 'xCount':
-                                if (this._hosting) {
-                                    this.handleExecution(mapEvent)
-                                }
+                                this.switchType(mapEvent.path[0] as string)
                                 break
                             case 'output':
-                                if (!this._hosting) {
+                                if (!this._hosting || this._settings.executionMode === 'server') {
                                     this.handleOutputChange(mapEvent.path[0] as string)
                                 }
                                 break
                             case 'tag':
                                 this.handleTag(mapEvent.path[0] as string)
                                 break
+                            case 'metadata':
+                                this.bindMetadata(this._notebook.widgets[this.findCellIndex(mapEvent.path[0] as string)])
+                                break
+                            case 'attachments':
+                                this.handleAttachments(mapEvent.path[0] as string)
+                                break
                         }
                     }
-                    else {
-                        // Addition or deletion
-                        mapEvent.changes.keys.forEach((change, id) => {
-                            switch (change.action) {
-                                case 'add':
-                                    const type = this._cells.get(id).get('type') as string
-                                    let cellModel
-                                    switch (type) {
-                                        case 'code':
-                                            cellModel = this._notebook.model.contentFactory.createCodeCell({})
-                                            break;
-                                        case 'markdown':
-                                            cellModel = this._notebook.model.contentFactory.createMarkdownCell({})
-                                            break
-                                        case 'raw':
-                                            cellModel = this._notebook.model.contentFactory.createRawCell({})
-                                            break
-                                        default:
-                                            cellModel = this._notebook.model.contentFactory.createCell(this._notebook.notebookConfig.defaultCell, {})
-                                            break;
-                                    }
-                                    const position = this._cells.get(id).get('position') as number
-                                    cellModel.metadata.set('rtc-id', id)
-                                    cellModel.metadata.set('xCount', 0)
-                                    this._notebook.model.cells.insert(position, cellModel)
-                                    this.bindCell(this._notebook.widgets[position])
-                                    break
-                                case 'delete':
-                                    this._bindings.get(id).destroy()
-                                    this._bindings.delete(id)
-                                    for (let i = 0; i < this._notebook.model.cells.length; i++) {
-                                        const cell = this._notebook.model.cells.get(i)
-                                        if (cell.metadata.get('rtc-id') === id) {
-                                            this._notebook.model.cells.remove(i)
-                                            break
-                                        }
-                                    }
-                                    break
-                            }
-                        })
-                    }
                 });
+                if (!this._hosting || this._settings.executionMode === 'server') {
+                    outputs.forEach(cellID => this.handleOutputChange(cellID))
+                }
+            }
+        }
+        this._orderListenerFunction = (_e, t) => {
+            if (t.origin && t.origin !== this) {
+                this.applyOrder()
             }
         }
 
         this._cells.observeDeep(this._remoteListenerFunction)
+        this._order.observe(this._orderListenerFunction)
     }
 
     /**
@@ -433,6 +1246,16 @@ export class RTCNotebook {
                         // cell was added by remote operation so don't insert it!
                         break
                     }
+                    if (this.role === 'viewer') {
+                        // Viewers are not allowed to add cells
+                        setTimeout(() => {
+                            const index = ArrayExt.findFirstIndex(toArray(this._notebook.model.cells), model => model === cellModel)
+                            if (index !== -1) {
+                                this._notebook.model.cells.remove(index)
+                            }
+                        })
+                        break
+                    }
                     const cellID = uuid().toString();
                     cellModel.metadata.set('rtc-id', cellID)
                     cellModel.metadata.set('xCount', 0)
@@ -440,12 +1263,15 @@ export class RTCNotebook {
                     metadata.set('type', 'code')
                     metadata.set('xCount', 0)
                     metadata.set('output', new Y.Array)
-                    this.bindCell(this._notebook.widgets[changed.newIndex])
-                    metadata.set('position', changed.newIndex)
-                    this._cells.set(cellID, metadata)
-                    if (changed.newIndex < this._notebook.model.cells.length - 1) {
-                        this.adjustIndexes(changed.newIndex + 1, this._notebook.model.cells.length - 1)
+                    metadata.set('metadata', MetadataBinding.fill(new Y.Map, cellModel.metadata, CELL_METADATA_EXCLUDED))
+                    if (cellModel.type !== 'code') {
+                        metadata.set('attachments', (cellModel as IAttachmentsCellModel).attachments.toJSON())
                     }
+                    this.bindCell(this._notebook.widgets[changed.newIndex])
+                    this._doc.transact(() => {
+                        this._cells.set(cellID, metadata)
+                        this.insertInOrder(cellID, changed.newIndex)
+                    }, this)
                     break
                 case 'remove':
                     const deleteCellID = changed.oldValues[0].metadata.get('rtc-id') as string
@@ -453,23 +1279,40 @@ export class RTCNotebook {
                         // Lengths are equal so cell is already deleted in remote array
                         break
                     }
-                    this._bindings.get(deleteCellID).destroy()
-                    this._bindings.delete(deleteCellID)
-                    this._cells.delete(deleteCellID)
-                    if (changed.oldIndex < this._notebook.model.cells.length) {
-                        this.adjustIndexes(changed.oldIndex, this._notebook.model.cells.length - 1)
+                    if (this.role === 'viewer') {
+                        // Viewers are not allowed to delete cells
+                        setTimeout(() => {
+                            const restored = this.createCellModel(this._cells.get(deleteCellID).get('type'))
+                            restored.metadata.set('rtc-id', deleteCellID)
+                            restored.metadata.set('xCount', this._cells.get(deleteCellID).get('xCount'))
+                            this._notebook.model.cells.insert(changed.oldIndex, restored)
+                            this.bindCell(this._notebook.widgets[changed.oldIndex])
+                            this.handleOutputChange(deleteCellID)
+                        })
+                        break
                     }
+                    this.unbindCell(deleteCellID)
+                    this._doc.transact(() => {
+                        this._cells.delete(deleteCellID)
+                        this.removeFromOrder(deleteCellID)
+                    }, this)
                     break
                 case 'set':
                     const rid = changed.oldValues[0].metadata.get('rtc-id') as string
                     if (changed.newValues[0].type !== changed.oldValues[0].type) {
-                        const cell = this._notebook.widgets[this.getCellIndex(rid)] as Cell
+                        const cell = this._notebook.widgets[changed.newIndex] as Cell
                         this.bindCell(cell)
                         const metadata = this._cells.get(rid) as Y.Map<any>
 
                         // Check if remote is up to date. If not, propagate change.
-                        if (metadata.get('type') !== cell.model.type) {
-                            metadata.set('type', cell.model.type)
+                        if (metadata.get('type') !== cell.model.type && this.role === 'viewer') {
+                            // Viewers are not allowed to change the cell type
+                            setTimeout(() => this.switchType(rid))
+                        }
+                        else if (metadata.get('type') !== cell.model.type) {
+                            this._doc.transact(() => {
+                                metadata.set('type', cell.model.type)
+                            }, this)
                         }
                     }
                     break
@@ -479,13 +1322,19 @@ export class RTCNotebook {
                         // Nothing happened
                         return
                     }
-                    if (this._cells.get(id).get('position') === changed.newIndex) {
-                        // Remote map is already updated so we initiated this move
+                    if (this.cellOrder()[changed.newIndex] === id) {
+                        // Remote order is already updated so we initiated this move
+                        return
+                    }
+                    if (this.role === 'viewer') {
+                        // Viewers are not allowed to move cells
+                        setTimeout(() => this._notebook.model.cells.move(changed.newIndex, changed.oldIndex))
                         return
                     }
-                    const m = this._cells.get(id)
-                    m.set('position', changed.newIndex)
-                    this.adjustIndexes(changed.oldIndex, changed.newIndex)
+                    this._doc.transact(() => {
+                        this.removeFromOrder(id)
+                        this.insertInOrder(id, changed.newIndex)
+                    }, this)
                     break
             }
         }
@@ -497,76 +1346,61 @@ export class RTCNotebook {
      * This function will listen to executed cells on non-hosting clients.
      */
     private initLocalExecutionListener() {
-        if (!this._hosting) {
-            this._localExecutionListenerSlot = (_sender, args) => {
-                const originNotebook = args.notebook
-                const cellID = args.cell.model.metadata.get('rtc-id') as string
-                const metadata = this._cells.get(cellID) as Y.Map<any>
-                if (originNotebook === this._notebook) {
-                    switch (args.cell.model.type) {
-                        case 'code':
-                            args.cell.setPrompt('*')
-                            if (!this.checkHostActive()) {
-                                this._hosting = true
-                                this._hubHost.delete(0, this._hubHost.length)
-                                this._hubHost.insert(0, this._hubUser)
-                                this.becomeHost()
-                            }
-                            let currentCount = metadata.get('xCount') as number
-                            currentCount = currentCount === undefined ? 1 : currentCount + 1
-                            metadata.set('xCount', currentCount)
+        this._localExecutionListenerSlot = (_sender, args) => {
+            const originNotebook = args.notebook
+            const cellID = args.cell.model.metadata.get('rtc-id') as string
+            const metadata = this._cells.get(cellID) as Y.Map<any>
+            if (originNotebook === this._notebook && !this._hosting) {
+                switch (args.cell.model.type) {
+                    case 'code':
+                        if (this.role === 'viewer') {
+                            // Viewers are not allowed to execute cells
+                            args.cell.setPrompt(metadata.get('tag') ? `${metadata.get('tag')}` : '')
                             break
-                    }
+                        }
+                        if (this._settings.executionMode === 'server') {
+                            // The cell was executed on the shared kernel, its outputs are shared by this client
+                            break
+                        }
+                        // Executed by the host, or by the next host once it is elected
+                        args.cell.setPrompt('*')
+                        this._queue.request(cellID, this._hubUser)
+                        break
                 }
             }
-            NotebookActions.executed.connect(this._localExecutionListenerSlot, this)
         }
+        NotebookActions.executed.connect(this._localExecutionListenerSlot, this)
     }
 
     /**
-     * Handles a remote cell type change
-     * @param {Y.YMapEvent<Y.Map<any>>} e Remote event
+     * Changes the type of a cell to the type stored in the shared document
+     * @param {string} id ID of the cell
      * @returns {void} Nothing
      */
-    private switchType(e: Y.YMapEvent<Y.Map<any>>): void {
-        const id = e.path[0] as string
+    private switchType(id: string): void {
         const metadata = this._cells.get(id) as Y.Map<any>
         const type = metadata.get('type') as string
-        const oldCell = this._notebook.widgets[this.getCellIndex(id)]
+        const index = this.findCellIndex(id)
+        const oldCell = this._notebook.widgets[index]
         if (oldCell.model.type === type) {
             return
         }
         switch (type) {
             case 'markdown':
                 const markdownCell = this._notebook.model.contentFactory.createMarkdownCell({ cell: oldCell.model.toJSON() })
-                this._notebook.model.cells.set(this.getCellIndex(id), markdownCell)
+                this._notebook.model.cells.set(index, markdownCell)
                 break
             case 'code':
                 const codeCell = this._notebook.model.contentFactory.createCodeCell({ cell: oldCell.model.toJSON() })
-                this._notebook.model.cells.set(this.getCellIndex(id), codeCell)
+                this._notebook.model.cells.set(index, codeCell)
                 break
             case 'raw':
                 const rawCell = this._notebook.model.contentFactory.createRawCell({ cell: oldCell.model.toJSON() })
-                this._notebook.model.cells.set(this.getCellIndex(id), rawCell)
+                this._notebook.model.cells.set(index, rawCell)
                 break
         }
     }
 
-    /**
-     * Checks whether the hosting client is still connected.
-     * @returns {boolean} Value indicating whether or not the hosting client is still connected to the WebSocket server
-     */
-    private checkHostActive(): boolean {
-        let isActive = false
-        this._ws.awareness.getStates().forEach(state => {
-            if (state.user.name === this._hubHost.toString()) {
-                isActive = true
-                return
-            }
-        })
-        return isActive
-    }
-
     /**
      * Bind every cell of this notebook.
      */
@@ -582,47 +1416,183 @@ export class RTCNotebook {
      */
     private bindCell(cell: Cell) {
         const cellID = cell.model.metadata.get('rtc-id') as string
-        const text = this._doc.getText(cellID)
         const editor = cell.editor as CodeMirrorEditor
         
         if (cell.model.type === 'code') {
-            cell.model.mimeType = 'text/x-ipython'
+            cell.model.mimeType = this._notebook.codeMimetype
             const c = cell as CodeCell
             c.model.stateChanged.connect((_s, a) => {
-                if (a.name === 'executionCount' && this._hosting) {
+                if (a.name === 'executionCount' && this.executesLocally()) {
                     this._cells.get(cellID).set('tag', a.newValue)
                 }
 
             }, this)
             c.model.outputs.changed.connect((_s, a) => {
                 if (a.type === 'add' && this._hosting) {
-                    this.updateCellOutput(c)
+                    c.setPrompt('')
+                }
+                if (this.executesLocally()) {
+                    this.updateCellOutput(cellID)
                 }
             }, this)
         }
-        const binding = new CodeMirrorBinding(text, editor.editor, this._ws.awareness)
+        const binding = this.createBinding(cellID, editor)
+        editor.setOption('readOnly', this.role === 'viewer')
         
         if (this._bindings.get(cellID) !== undefined) {
             this._bindings.get(cellID).destroy()
         }
         this._bindings.set(cellID, binding)
+        this.bindMetadata(cell)
+        if (cell.model.type !== 'code') {
+            (cell.model as IAttachmentsCellModel).attachments.changed.connect(this.handleLocalAttachments, this)
+            this.handleAttachments(cellID)
+        }
     }
 
     /**
-     * 
-     * @param {CodeCell} cell Cell of 'code' type for which to set the output
+     * Removes the bindings of a cell
+     * @param {string} cellID ID of the cell
+     */
+    private unbindCell(cellID: string) {
+        this._bindings.get(cellID).destroy()
+        this._bindings.delete(cellID)
+        if (this._metadataBindings.has(cellID)) {
+            this._metadataBindings.get(cellID).destroy()
+            this._metadataBindings.delete(cellID)
+        }
+    }
+
+    /**
+     * Binds the metadata of a cell to the metadata map of the cell in the shared document.
+     * Cells of documents created by older versions get a metadata map filled with their local metadata.
+     * @param {Cell} cell Cell to bind
      */
-    private updateCellOutput(cell: CodeCell) {
-        cell.setPrompt('')
+    private bindMetadata(cell: Cell) {
+        if (!cell) {
+            return
+        }
         const cellID = cell.model.metadata.get('rtc-id') as string
-        const metadata = this._cells.get(cellID) as Y.Map<any>
-        const outputs = new Array() as Array<IOutput>
-        for (let index = 0; index < cell.outputArea.model.length; index++) {
+        const cellMap = this._cells.get(cellID)
+        if (this._metadataBindings.has(cellID)) {
+            this._metadataBindings.get(cellID).destroy()
+            this._metadataBindings.delete(cellID)
+        }
+        if (!cellMap.has('metadata')) {
+            if (this.role === 'viewer') {
+                return
+            }
+            cellMap.set('metadata', MetadataBinding.fill(new Y.Map, cell.model.metadata, CELL_METADATA_EXCLUDED))
+        }
+        const binding = new MetadataBinding(cellMap.get('metadata'), cell.model.metadata, CELL_METADATA_EXCLUDED)
+        binding.readOnly = this.role === 'viewer'
+        this._metadataBindings.set(cellID, binding)
+    }
+
+    /**
+     * Binds the metadata of the notebook to the metadata map of the shared document
+     */
+    private bindNotebookMetadata() {
+        const map = this._doc.getMap('metadata')
+        if (map.size === 0 && this.role !== 'viewer') {
+            // Document created by an older version
+            MetadataBinding.fill(map, this._notebook.model.metadata, NOTEBOOK_METADATA_EXCLUDED)
+        }
+        this._notebookMetadata = new MetadataBinding(map, this._notebook.model.metadata, NOTEBOOK_METADATA_EXCLUDED)
+        this._notebookMetadata.readOnly = this.role === 'viewer'
+    }
+
+    /**
+     * Shares a change of the attachments of a markdown or raw cell
+     * @param {IAttachmentsCellModel['attachments']} sender Attachments that changed
+     */
+    private handleLocalAttachments(sender: IAttachmentsCellModel['attachments']) {
+        if (this._applyingAttachments) {
+            return
+        }
+        const cell = ArrayExt.findFirstValue(this._notebook.widgets, c => {
+            return c.model.type !== 'code' && (c.model as IAttachmentsCellModel).attachments === sender
+        })
+        if (!cell) {
+            return
+        }
+        const cellID = cell.model.metadata.get('rtc-id') as string
+        const cellMap = this._cells.get(cellID)
+        const attachments = sender.toJSON()
+        if (!cellMap || JSONExt.deepEqual(cellMap.get('attachments') || {}, attachments)) {
+            return
+        }
+        if (this.role === 'viewer') {
+            // Viewers are not allowed to change attachments
+            setTimeout(() => this.handleAttachments(cellID))
+            return
+        }
+        this._doc.transact(() => {
+            cellMap.set('attachments', attachments)
+        }, this)
+    }
+
+    /**
+     * Applies the shared attachments of a markdown or raw cell
+     * @param {string} cellID ID of the cell
+     */
+    private handleAttachments(cellID: string) {
+        const cell = this._notebook.widgets[this.findCellIndex(cellID)]
+        if (!cell || cell.model.type === 'code' || !this._cells.get(cellID).has('attachments')) {
+            return
+        }
+        const attachments = (cell.model as IAttachmentsCellModel).attachments
+        const shared = this._cells.get(cellID).get('attachments')
+        if (!JSONExt.deepEqual(attachments.toJSON(), shared)) {
+            this._applyingAttachments = true
+            attachments.fromJSON(shared)
+            this._applyingAttachments = false
+        }
+    }
+
+    /**
+     * Binds the editor of a cell to its shared text.
+     * Each cell has its own undo manager which only tracks the changes made in the local editor.
+     * @param {string} cellID ID of the cell
+     * @param {CodeMirrorEditor} editor Editor of the cell
+     * @returns {CodemirrorBinding}
+     */
+    private createBinding(cellID: string, editor: CodeMirrorEditor): CodemirrorBinding {
+        const text = this._doc.getText(cellID)
+        if (!this._textUndoManagers.has(cellID)) {
+            this._textUndoManagers.set(cellID, new Y.UndoManager(text, { trackedOrigins: new Set() }))
+        }
+        return new CodeMirrorBinding(text, editor.editor, this._ws.awareness, { yUndoManager: this._textUndoManagers.get(cellID) })
+    }
 
-            const o = cell.outputArea.model.get(index) as IOutputModel;
-            outputs.push(o.toJSON())
+    /**
+     * Shares the outputs of a cell at the hosting client.
+     * All changes of the outputs made in the same tick are written in a single transaction,
+     * so clearing the outputs with clear_output(wait=True) and adding the next output reach the other clients together.
+     * @param {string} cellID ID of the code cell for which to share the output
+     */
+    private updateCellOutput(cellID: string) {
+        this._pendingOutputs.add(cellID)
+        if (this._pendingOutputs.size > 1) {
+            return
         }
-        metadata.set('output', outputs)
+        Promise.resolve().then(() => {
+            this._doc.transact(() => {
+                this._pendingOutputs.forEach(id => {
+                    const cell = this._notebook.widgets[this.findCellIndex(id)] as CodeCell
+                    const metadata = this._cells.get(id) as Y.Map<any>
+                    if (!cell || !metadata || cell.model.type !== 'code') {
+                        return
+                    }
+                    if (!(metadata.get('output') instanceof Y.Array)) {
+                        // Document created by an older version
+                        metadata.set('output', new Y.Array)
+                    }
+                    this._outputs.write(metadata.get('output'), cell.outputArea.model.toJSON())
+                })
+            })
+            this._pendingOutputs.clear()
+        })
     }
 
     /**
@@ -631,15 +1601,24 @@ export class RTCNotebook {
      */
     private handleOutputChange(cellID: string) {
         const metadata = this._cells.get(cellID) as Y.Map<any>
-        const cell = this._notebook.widgets[this.getCellIndex(cellID)]
-        if (cell.model.type === 'code') {
+        const cell = this._notebook.widgets[this.findCellIndex(cellID)]
+        if (cell && metadata && cell.model.type === 'code') {
             const codeCell = cell as CodeCell
-            const outputs = metadata.get('output') as IOutput[]
-            codeCell.outputArea.model.clear(false)
-            outputs.forEach(output => {
-                codeCell.outputArea.model.add(output)
-            });
+            this._outputs.apply(codeCell.outputArea.model, this._outputs.read(metadata.get('output'), this._loadedOutputs))
+        }
+    }
+
+    /**
+     * Replaces the placeholder of a large output by the full output
+     * @param {CustomEvent<string>} e Event dispatched by the placeholder, its detail is the ID of the output
+     */
+    private loadOutput(e: CustomEvent<string>) {
+        const cell = ArrayExt.findFirstValue(this._notebook.widgets, c => c.node.contains(e.target as Node))
+        if (!cell) {
+            return
         }
+        this._loadedOutputs.add(e.detail)
+        this.handleOutputChange(cell.model.metadata.get('rtc-id') as string)
     }
 
     /**
@@ -648,97 +1627,567 @@ export class RTCNotebook {
      */
     private handleTag(cellID: string) {
         const metadata = this._cells.get(cellID) as Y.Map<any>
-        const cell = this._notebook.widgets[this.getCellIndex(cellID)]
+        const cell = this._notebook.widgets[this.findCellIndex(cellID)]
         cell.setPrompt(metadata.get('tag'))
     }
 
     /**
-     * Handles a remote execution request
-     * @param {Y.YMapEvent<any>} e 
-     * @returns {void} Nothing
+     * Returns whether the cells executed in the local notebook run on a kernel, in which case this client shares their outputs.
+     * This is the hosting client, or every editor in the 'server' execution mode.
+     * @returns {boolean}
      */
-    private handleExecution(e: Y.YMapEvent<any>): void {
-        const id = e.path[0] as string
-        const cell = this._notebook.widgets[this.getCellIndex(id)] as CodeCell
-        CodeCell.execute(cell, this._panel.sessionContext)
+    private executesLocally(): boolean {
+        return this._hosting || (this._settings.executionMode === 'server' && this.role !== 'viewer')
     }
 
+    /**
+     * Initialises the toolbar items showing the shared kernel status and sending commands to the shared kernel
+     */
+    private initKernelToolbar() {
+        this._kernelStatus = new KernelStatus()
+        this._interruptButton = new ToolbarButton({
+            icon: stopIcon,
+            tooltip: 'Interrupt the shared kernel',
+            onClick: () => this.interruptKernel()
+        })
+        this._restartButton = new ToolbarButton({
+            icon: refreshIcon,
+            tooltip: 'Restart the shared kernel',
+            onClick: () => this.restartKernel()
+        })
+        this._panel.toolbar.addItem('rtc-kernel-interrupt', this._interruptButton)
+        this._panel.toolbar.addItem('rtc-kernel-restart', this._restartButton)
+        this._panel.toolbar.addItem('rtc-kernel-status', this._kernelStatus)
+        this._queue.changed.connect(this.handleQueueChange, this)
+        this._panel.sessionContext.statusChanged.connect(this.publishKernelStatus, this)
+        this.handleQueueChange()
+    }
 
     /**
-     * Handle cell movement
-     * @param {Y.YMapEvent<string>} e 
-     * @returns {void} Nothing
+     * Executes commands and requests at the hosting client, shows the running cells at the other clients.
+     */
+    private handleQueueChange() {
+        const pending = this._queue.pending
+        if (this._hosting) {
+            this._queue.takeCommands().forEach(command => {
+                this.executeKernelCommand(command.command)
+            })
+            this.processQueue()
+        }
+        else {
+            pending.forEach(execution => {
+                const index = this.findCellIndex(execution.cell)
+                if (index !== -1) {
+                    this._notebook.widgets[index].setPrompt('*')
+                }
+            })
+        }
+        if (!this.isOwner) {
+            this.applyKernelspec()
+        }
+        const kernelID = this._queue.kernelID
+        if (this._synced && this._settings.executionMode === 'server' && this.role !== 'viewer' && kernelID && kernelID !== this.localKernelID() && kernelID !== this._missingKernelID) {
+            // Another participant started the shared kernel
+            this._kernelReady = this.connectSharedKernel()
+        }
+        this.renderKernelStatus()
+    }
+
+    /**
+     * Renders the status of the shared kernel in the toolbar.
+     * In the 'server' execution mode every participant is connected to the shared kernel and shows its own kernel status.
+     */
+    private renderKernelStatus() {
+        let status = this._queue.kernelStatus
+        if (this._settings.executionMode === 'server') {
+            const session = this._panel.sessionContext.session
+            status = session && session.kernel ? session.kernel.status : 'dead'
+        }
+        const kernelspec = this._queue.kernelspec
+        const name = kernelspec ? kernelspec.display_name : this._queue.kernelName
+        this._kernelStatus.render(name, status, this._queue.pending, cellID => this.findCellIndex(cellID))
+    }
+
+    /**
+     * Shares the name of the notebook file of the owner, so joiners can name their copy after it
      */
-    private handleMoveUpdate(e: Y.YMapEvent<string>): void {
-        e.changes.keys.forEach((change) => {
-            const id = e.path[0] as string
-            let oldPosition = change.oldValue
-            const newPosition = this._cells.get(id).get('position') as number
+    private publishTitle() {
+        if (!this.isOwner) {
+            return
+        }
+        const title = this._doc.getText('title')
+        const name = PathExt.basename(this._panel.context.path)
+        if (title.toString() !== name) {
+            this._doc.transact(() => {
+                title.delete(0, title.length)
+                title.insert(0, name)
+            }, this)
+        }
+    }
 
-            if (this._notebook.model.cells.get(newPosition).metadata.get('rtc-id') === id) {
-                // This cell is already at it's correct position
-                return
+    /**
+     * Shares the kernelspec and language info of the notebook of the owner
+     */
+    private publishKernelspec() {
+        if (!this.isOwner || this.role === 'viewer') {
+            return
+        }
+        const metadata = this._notebook.model.metadata
+        this._queue.shareKernelspec(metadata.get('kernelspec') as IKernelspecMetadata | undefined, metadata.get('language_info') as ILanguageInfoMetadata | undefined)
+    }
+
+    /**
+     * Copies the kernelspec and language info of the owner to the local notebook.
+     * The notebook derives the mime type of its code cells from the language info.
+     */
+    private applyKernelspec() {
+        const metadata = this._notebook.model.metadata
+        const kernelspec = this._queue.kernelspec
+        const languageInfo = this._queue.languageInfo
+        if (kernelspec && !JSONExt.deepEqual(metadata.get('kernelspec'), kernelspec)) {
+            metadata.set('kernelspec', kernelspec)
+        }
+        if (languageInfo && !JSONExt.deepEqual(metadata.get('language_info'), languageInfo)) {
+            metadata.set('language_info', languageInfo)
+        }
+    }
+
+    /**
+     * Starts a kernel matching the kernelspec of the owner
+     * @returns {Promise<Kernel.IKernelConnection | null>}
+     */
+    private startKernel(): Promise<Kernel.IKernelConnection | null> {
+        const sessionContext = this._panel.sessionContext
+        const kernelspec = this._queue.kernelspec
+        const name = kernelspec ? kernelspec.name : this._queue.kernelName || 'python3'
+        return sessionContext.specsManager.ready.then(() => {
+            const specs = sessionContext.specsManager.specs
+            if (specs && !specs.kernelspecs[name]) {
+                const displayName = kernelspec ? kernelspec.display_name : name
+                showErrorMessage('Kernel not available', `The shared notebook uses the kernel "${displayName}", which is not installed on this Jupyter server. Cells can not be executed until another participant becomes host.`)
+                throw new Error(`Kernel ${name} is not available`)
+            }
+            return sessionContext.changeKernel({ name: name })
+        })
+    }
+
+    /**
+     * Returns the id of the kernel the local session is connected to
+     * @returns {string | undefined}
+     */
+    private localKernelID(): string | undefined {
+        const session = this._panel.sessionContext.session
+        return session && session.kernel ? session.kernel.id : undefined
+    }
+
+    /**
+     * Connects the session of this notebook to the kernel of the Jupyter server stored in the shared document.
+     * If there is no shared kernel yet, an editor shares the kernel of its own session.
+     * Only used in the 'server' execution mode.
+     * @returns {Promise<void>}
+     */
+    private connectSharedKernel(): Promise<void> {
+        if (this._kernelConnection) {
+            return this._kernelConnection
+        }
+        const sessionContext = this._panel.sessionContext
+        this._kernelConnection = sessionContext.ready.then(() => {
+            if (this.role === 'viewer') {
+                // Viewers are not allowed to execute cells on the shared kernel
+                return sessionContext.shutdown()
+            }
+            const id = this._queue.kernelID
+            if (!id) {
+                const session = sessionContext.session
+                const kernel = session && session.kernel ? Promise.resolve(session.kernel) : this.startKernel()
+                return kernel.then(k => {
+                    if (k) {
+                        this._queue.shareKernel(k.id, k.name)
+                    }
+                }, () => {
+                    // startKernel already told the user the kernel is not available
+                })
+            }
+            return KernelAPI.getKernelModel(id, sessionContext.sessionManager.serverSettings).then(model => {
+                if (!model) {
+                    // Sharing the local kernel instead would make participants on different Jupyter servers replace each other's kernel
+                    this._missingKernelID = id
+                    showErrorMessage('Shared kernel not found', 'The kernel of this shared notebook is not running on your Jupyter server, so cells cannot be executed. In the "server" execution mode all participants must use the same Jupyter server.')
+                    return
+                }
+                this._missingKernelID = undefined
+                if (this.localKernelID() !== model.id) {
+                    return sessionContext.changeKernel({ id: model.id }).then(() => undefined)
+                }
+            })
+        }).catch(reason => {
+            showErrorMessage('Could not connect to the shared kernel', `${reason}`)
+        }).then(() => {
+            this._kernelConnection = null
+            this.renderKernelStatus()
+        })
+        return this._kernelConnection
+    }
+
+    /**
+     * Executes the oldest queued request, one request at a time.
+     */
+    private processQueue() {
+        if (!this._hosting || this._executing) {
+            return
+        }
+        this._executing = true
+        const execution = this._queue.start()
+        if (!execution) {
+            this._executing = false
+            return
+        }
+        const cell = this._notebook.widgets[this.findCellIndex(execution.cell)] as CodeCell
+        this._kernelReady.then((): ExecutionState | Promise<ExecutionState> => {
+            if (!cell || cell.model.type !== 'code') {
+                return 'error'
             }
-            this._notebook.model.cells.move(oldPosition, newPosition)
+            return CodeCell.execute(cell, this._panel.sessionContext).then(reply => {
+                return reply && reply.content.status === 'ok' ? 'done' : 'error'
+            })
+        }).catch((): ExecutionState => 'error').then(state => {
+            this._queue.finish(execution.id, state)
+            this._executing = false
+            this.processQueue()
         })
     }
 
     /**
-     * Adjust all indexes in the shared map. This operation is called after a local addition, deletion or move operation.
-     * @param {number} from Start (or end) position of the cell range that needs to be updated
-     * @param {number} to End (or start) position of the cell range that needs to be updated
+     * Sends a command to the kernel of the hosting client, the hosting client executes it directly
+     * @param {KernelCommand} command
+     */
+    private sendKernelCommand(command: KernelCommand) {
+        if (this.role === 'viewer') {
+            return
+        }
+        if (this._hosting) {
+            this.executeKernelCommand(command)
+        }
+        else {
+            this._queue.command(command, this._hubUser)
+        }
+    }
+
+    /**
+     * Executes a command on the local kernel
+     * @param {KernelCommand} command
+     * @returns {Promise<void>}
+     */
+    private executeKernelCommand(command: KernelCommand): Promise<void> {
+        const sessionContext = this._panel.sessionContext
+        if (command === 'restart') {
+            return sessionContext.restartKernel()
+        }
+        const kernel = sessionContext.session ? sessionContext.session.kernel : null
+        return kernel ? kernel.interrupt() : Promise.resolve()
+    }
+
+    /**
+     * Publishes the status of the local kernel at the hosting client
+     * @param {any} _sender
+     * @param {Kernel.Status} status New status of the kernel
      */
-    private adjustIndexes(from: number, to: number) {
-        let start: number
-        let end: number
-        if (from <= to) {
-            start = from
-            end = to
+    private publishKernelStatus(_sender?: any, status?: Kernel.Status) {
+        this.renderKernelStatus()
+        if (!this._hosting) {
+            return
         }
-        if (from > to) {
-            start = to
-            end = from
+        if (!status) {
+            const session = this._panel.sessionContext.session
+            status = session && session.kernel ? session.kernel.status : 'dead'
+        }
+        this._queue.kernelStatus = status
+    }
+
+    /**
+     * Returns the ids of the cells in the order of the shared document.
+     * Concurrent moves of the same cell can leave duplicates in the order, only the first occurrence counts.
+     * @returns {string[]}
+     */
+    private cellOrder(): string[] {
+        const seen = new Set<string>()
+        return this._order.toArray().filter(id => {
+            if (seen.has(id) || !this._cells.has(id)) {
+                return false
+            }
+            seen.add(id)
+            return true
+        })
+    }
+
+    /**
+     * Inserts a cell in the shared order right after the cell that precedes it in the local notebook
+     * @param {string} cellID ID of the cell
+     * @param {number} index Index of the cell in the local notebook
+     */
+    private insertInOrder(cellID: string, index: number) {
+        if (index === 0) {
+            this._order.insert(0, [cellID])
+            return
         }
+        const previousID = this._notebook.model.cells.get(index - 1).metadata.get('rtc-id') as string
+        const previousIndex = this._order.toArray().indexOf(previousID)
+        this._order.insert(previousIndex === -1 ? this._order.length : previousIndex + 1, [cellID])
+    }
 
-        for (let index = start; index <= end; index++) {
-            const id = this._notebook.model.cells.get(index).metadata.get('rtc-id') as string
-            const metadata = this._cells.get(id)
-            metadata.set('position', index)
+    /**
+     * Removes every occurrence of a cell from the shared order
+     * @param {string} cellID ID of the cell
+     */
+    private removeFromOrder(cellID: string) {
+        const ids = this._order.toArray()
+        for (let i = ids.length - 1; i >= 0; i--) {
+            if (ids[i] === cellID) {
+                this._order.delete(i, 1)
+            }
         }
     }
 
     /**
-     * Returns the position of a given cell in the notebook.
-     * @param {string} cellID ID of the cell for which to retrieve the position 
-     * @returns {number} Position of the cell in the notebook
+     * Brings the local notebook in line with the shared order after a remote change.
+     * Cells missing from the order are removed, new cells are created and the others are moved into place.
      */
-    private getCellIndex(cellID: string): number {
-        return this._cells.get(cellID).get('position') as number
+    private applyOrder() {
+        const order = this.cellOrder()
+        const ids = new Set(order)
+        for (let i = this._notebook.model.cells.length - 1; i >= 0; i--) {
+            const id = this._notebook.model.cells.get(i).metadata.get('rtc-id') as string
+            if (!ids.has(id) && this._bindings.has(id)) {
+                this.unbindCell(id)
+                this._notebook.model.cells.remove(i)
+            }
+        }
+        order.forEach((id, position) => {
+            const current = this.findCellIndex(id)
+            if (current === -1) {
+                const cellModel = this.createCellModel(this._cells.get(id).get('type'))
+                cellModel.metadata.set('rtc-id', id)
+                cellModel.metadata.set('xCount', this._cells.get(id).get('xCount') || 0)
+                this._notebook.model.cells.insert(position, cellModel)
+                this.bindCell(this._notebook.widgets[position])
+                this.handleOutputChange(id)
+            }
+            else if (current !== position) {
+                this._notebook.model.cells.move(current, position)
+            }
+        })
     }
 
     /**
      * Initialises the listener that will respond to a switch of the hosting client.
      */
     private hostChangeListener() {
-        this._hostListenerFunction = (e:Y.YTextEvent, t:Y.Transaction) => {
-            e.changes.delta.forEach(delta => {
-                if (delta.insert) {
-                    this._panel.content.model.metadata.set('owner', delta.insert)
-                    if (delta.insert === this._hubUser) {
-                        this.becomeHost()
-                    }
-                }
-            });
+        this._hostListenerFunction = () => {
+            this._participantsChanged.emit()
         }
         this._doc.getText('host').observe(this._hostListenerFunction)
     }
 
+    /**
+     * Initialises the listener that applies role changes made by the owner.
+     * Also adds the badge shown in the toolbar of viewers.
+     */
+    private initRoleListener() {
+        this._roleBadge = new Widget()
+        this._roleBadge.addClass('rtc-role-badge')
+        this._roleBadge.node.textContent = 'Viewing'
+        this._roleBadge.node.title = 'You can follow this notebook but not edit or execute it'
+        this._panel.toolbar.insertItem(1, 'rtc-role', this._roleBadge)
+
+        this._rolesListenerFunction = (e: Y.YMapEvent<Role>, _t: Y.Transaction) => {
+            if (e.keysChanged.has(this._hubUser)) {
+                this.applyRole()
+            }
+        }
+        this._roles.observe(this._rolesListenerFunction)
+        this.applyRole()
+    }
+
+    /**
+     * Initialises the listener that leaves the shared notebook when the owner closes it for everyone
+     * and records the owner in the notebook metadata once it is received
+     */
+    private initRoomListener() {
+        this._roomListenerFunction = (e: Y.YMapEvent<string | boolean>, t: Y.Transaction) => {
+            if (e.keysChanged.has('owner') && this.owner) {
+                this._notebook.model.metadata.set('owner', this.owner)
+                this.applyRole()
+                this._participantsChanged.emit()
+            }
+            if (t.origin !== this && e.keysChanged.has('closed') && this._room.get('closed')) {
+                // Leave after the transaction, the shared document is still being updated
+                setTimeout(() => this.handleRoomClosed())
+            }
+        }
+        this._room.observe(this._roomListenerFunction)
+    }
+
+    /**
+     * Leaves a shared notebook that was closed by its owner, the local copy becomes a regular notebook
+     */
+    private handleRoomClosed() {
+        if (RTCNotebook.find(this._panel) !== this) {
+            return
+        }
+        this.leave(false)
+        showDialog({
+            title: 'Sharing stopped',
+            body: 'The owner stopped sharing this notebook. Your copy is kept as a regular notebook, save it to keep the latest changes.',
+            buttons: [Dialog.okButton()]
+        })
+    }
+
+    /**
+     * Makes the editors read-only for viewers and shows the role in the toolbar and awareness
+     */
+    private applyRole() {
+        const viewer = this.role === 'viewer'
+        this._roleBadge.setHidden(!viewer)
+        this._interruptButton.setHidden(viewer)
+        this._restartButton.setHidden(viewer)
+        this._notebook.widgets.forEach(cell => {
+            cell.editor.setOption('readOnly', viewer)
+        })
+        this._metadataBindings.forEach(binding => binding.readOnly = viewer)
+        if (this._notebookMetadata) {
+            this._notebookMetadata.readOnly = viewer
+        }
+        if (this._ws) {
+            this._ws.awareness.setLocalStateField('role', this.role)
+        }
+    }
+
+    /**
+     * Publishes the active cell of the local user, and whether it is being edited, in the awareness
+     */
+    private handleActiveCellChange() {
+        if (!this._ws) {
+            return
+        }
+        const cell = this._notebook.activeCell
+        this._ws.awareness.setLocalStateField('cell', cell ? cell.model.metadata.get('rtc-id') : null)
+        this._ws.awareness.setLocalStateField('editing', this._notebook.mode === 'edit')
+    }
+
+    /**
+     * Returns the color of the local user.
+     * A color set in the settings always wins, otherwise the color is derived from the username and differs
+     * from the colors of the participants with a lower client id.
+     * @returns {string} Hexadecimal color
+     */
+    private pickColor(): string {
+        if (this._settings.userColor) {
+            return this._settings.userColor.toUpperCase()
+        }
+        const taken: string[] = []
+        if (this._ws) {
+            this._ws.awareness.getStates().forEach((state, clientID) => {
+                if (clientID < this._ws.awareness.clientID && state.user) {
+                    taken.push(state.user.color)
+                }
+            })
+        }
+        return Colors.forUser(this._hubUser, taken)
+    }
+
+    /**
+     * Publishes a new color for the local user if the current one is no longer valid
+     */
+    private updateColor() {
+        if (!this._ws) {
+            return
+        }
+        const user = this._ws.awareness.getLocalState().user
+        const color = this.pickColor()
+        if (user && user.color !== color) {
+            this._ws.awareness.setLocalStateField('user', { ...user, color: color })
+        }
+    }
+
+    /**
+     * Renders the presence chips of the other participants on their selected cells
+     */
+    private renderPresence() {
+        if (this._ws) {
+            this._presence.update(this.participants, this._ws.awareness.clientID)
+        }
+    }
+
+    /**
+     * Returns the index of a cell in the local notebook
+     * @param {string} cellID ID of the cell
+     * @returns {number} Index of the cell or -1 if the cell doesn't exist
+     */
+    private findCellIndex(cellID: string): number {
+        if (!cellID) {
+            return -1
+        }
+        return ArrayExt.findFirstIndex(this._notebook.widgets, cell => cell.model.metadata.get('rtc-id') === cellID)
+    }
+
+    /**
+     * Creates a new cell model of the given type
+     * @param {string} type Type of the cell
+     * @returns {ICellModel}
+     */
+    private createCellModel(type: string): ICellModel {
+        switch (type) {
+            case 'code':
+                return this._notebook.model.contentFactory.createCodeCell({})
+            case 'markdown':
+                return this._notebook.model.contentFactory.createMarkdownCell({})
+            case 'raw':
+                return this._notebook.model.contentFactory.createRawCell({})
+            default:
+                return this._notebook.model.contentFactory.createCell(this._notebook.notebookConfig.defaultCell, {})
+        }
+    }
+
     /**
      * Initialise kernel after becoming the host
      */
     private becomeHost() {
         this._hosting = true
-        this._panel.sessionContext.changeKernel({ name: 'python3' })
+        if (this._settings.executionMode === 'server') {
+            this._kernelReady = this.connectSharedKernel()
+        }
+        else {
+            this._kernelReady = this.startKernel()
+        }
+        this._kernelReady.then(() => {
+            this.publishKernelStatus()
+            this.handleQueueChange()
+        }).catch(() => {
+            // Queued requests fail when the kernel could not be started
+            this.handleQueueChange()
+        })
+    }
+
+    /**
+     * Shows a dialog asking for confirmation before closing while there are changes the server has not received.
+     * @returns {Promise<Dialog.IResult>}
+     */
+    private showUnsyncedDialog(): Promise<Dialog.IResult<unknown>> {
+        const body = new Panel()
+        const text = document.createElement('p')
+        text.append('Some of your changes have not reached the server yet. They are kept in this browser and shared the next time you open this notebook while online.')
+        body.node.appendChild(text)
+        const dialog = new Dialog({
+            title: 'Unsynced changes',
+            body: body,
+            buttons: [Dialog.cancelButton({
+                accept: false
+            }), Dialog.warnButton({
+                label: 'Close anyway',
+                accept: true
+            })],
+        })
+        return dialog.launch()
     }
 
     /**
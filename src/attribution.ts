@@ -0,0 +1,284 @@
+/**
+ * @author Mariën Jan
+ */
+
+import * as Y from 'yjs'
+import { Notebook } from '@jupyterlab/notebook'
+import { CodeMirrorEditor } from '@jupyterlab/codemirror'
+import { Colors } from './colors'
+
+const LABEL_CLASS = 'rtc-last-edited'
+const LABEL_CELL_CLASS = 'rtc-last-edited-cell'
+
+/**
+ * Text range of a cell written by one user
+ */
+export interface IAuthorRange {
+    from: number
+    to: number
+    user: string
+}
+
+/**
+ * Attribution class. Records which user is behind every Yjs clientID and who edited each cell last, both in the Y.Doc,
+ * so the authors of the text remain known after the session.
+ */
+export class Attribution {
+    private _doc: Y.Doc
+    private _users: Y.Map<string>
+    private _cells: Y.Map<Y.Map<any>>
+    private _cellOf = new Map<Y.AbstractType<any>, string>()
+    private _name: string = ''
+    private _canEdit: () => boolean = () => false
+    private _transactionListener: (t: Y.Transaction) => void
+
+    /**
+     *
+     * @param {Y.Doc} doc Shared Y.Doc
+     */
+    constructor(doc: Y.Doc) {
+        this._doc = doc
+        this._users = doc.getMap('users')
+        this._cells = doc.getMap('cells')
+        this._transactionListener = t => {
+            if (t.local && t.origin !== this && this._name && this._canEdit()) {
+                this.markEdited(t)
+            }
+        }
+        doc.on('afterTransaction', this._transactionListener)
+    }
+
+    /**
+     * Records the local user as author of the changes of this client and of the cells it edits
+     * @param {string} name JupyterHub username of the local user
+     * @param {() => boolean} canEdit Returns whether the local user is allowed to edit
+     */
+    register(name: string, canEdit: () => boolean) {
+        this._name = name
+        this._canEdit = canEdit
+        this.registerClient()
+    }
+
+    /**
+     * Returns the user behind a clientID
+     * @param {number} clientID Yjs clientID
+     * @returns {string | undefined}
+     */
+    userOf(clientID: number): string | undefined {
+        return this._users.get(String(clientID))
+    }
+
+    /**
+     * Returns the user that edited a cell last
+     * @param {string} cellID ID of the cell
+     * @returns {string | undefined}
+     */
+    lastEditor(cellID: string): string | undefined {
+        const cell = this._cells.get(cellID)
+        return cell ? cell.get('editedBy') : undefined
+    }
+
+    /**
+     * Returns the text ranges of a cell with their author, adjacent ranges of the same author are merged
+     * @param {string} cellID ID of the cell
+     * @returns {IAuthorRange[]}
+     */
+    ranges(cellID: string): IAuthorRange[] {
+        const ranges: IAuthorRange[] = []
+        const text = this._doc.getText(cellID)
+        for (let index = 0; index < text.length; index++) {
+            // The relative position of a character refers to its id, which contains the clientID of the client that inserted it
+            const position = Y.createRelativePositionFromTypeIndex(text, index)
+            const user = (position.item && this.userOf(position.item.client)) || 'unknown'
+            const last = ranges[ranges.length - 1]
+            if (last && last.user === user) {
+                last.to++
+            }
+            else {
+                ranges.push({ from: index, to: index + 1, user: user })
+            }
+        }
+        return ranges
+    }
+
+    /**
+     * Stop recording
+     */
+    dispose() {
+        this._doc.off('afterTransaction', this._transactionListener)
+    }
+
+    /**
+     * Adds the clientID of the local Y.Doc to the map of users, Yjs assigns a new clientID when it detects a conflict.
+     * Viewers are skipped, the server drops their changes so the local document would no longer match the others.
+     */
+    private registerClient() {
+        const key = String(this._doc.clientID)
+        if (this._name && this._canEdit() && this._users.get(key) !== this._name) {
+            this._doc.transact(() => this._users.set(key, this._name), this)
+        }
+    }
+
+    /**
+     * Stores the local user as last editor of the cells whose source or type changed in a local transaction
+     * @param {Y.Transaction} t
+     */
+    private markEdited(t: Y.Transaction) {
+        const edited = new Set<string>()
+        t.changed.forEach((keys, type) => {
+            // The source of a cell is a top-level Y.Text, its type is stored in the entry of the cell
+            const source = type instanceof Y.Text && !type.parent
+            const entry = type instanceof Y.Map && type.parent === this._cells && keys.has('type')
+            if (!source && !entry) {
+                return
+            }
+            if (!this._cellOf.has(type)) {
+                this.indexCells()
+            }
+            const cellID = this._cellOf.get(type)
+            if (cellID !== undefined && this._cells.has(cellID)) {
+                edited.add(cellID)
+            }
+        })
+        edited.forEach(cellID => {
+            if (this._cells.get(cellID).get('editedBy') !== this._name) {
+                this._doc.transact(() => this._cells.get(cellID).set('editedBy', this._name), this)
+            }
+        })
+        if (edited.size > 0) {
+            this.registerClient()
+        }
+    }
+
+    /**
+     * Maps the source and the entry of every cell to its ID, only needed again when a cell was added
+     */
+    private indexCells() {
+        this._cellOf.clear()
+        this._cells.forEach((cell, cellID) => {
+            this._cellOf.set(cell, cellID)
+            this._cellOf.set(this._doc.getText(cellID), cellID)
+        })
+    }
+}
+
+/**
+ * BlameOverlay class. Shows the last editor of each cell and, when enabled, colors the text of the cell editors by author.
+ */
+export class BlameOverlay {
+    private _notebook: Notebook
+    private _doc: Y.Doc
+    private _attribution: Attribution
+    private _colorOf: (user: string) => string | undefined
+    private _enabled: boolean = false
+    private _marks = new Map<string, CodeMirror.TextMarker[]>()
+    private _timer: ReturnType<typeof setTimeout> | null = null
+    private _transactionListener: () => void
+
+    /**
+     *
+     * @param {Notebook} notebook Notebook in which to render the overlay
+     * @param {Y.Doc} doc Shared Y.Doc
+     * @param {Attribution} attribution Authors of the shared notebook
+     * @param {(user: string) => string | undefined} colorOf Returns the presence color of a connected user, undefined for users that are offline
+     */
+    constructor(notebook: Notebook, doc: Y.Doc, attribution: Attribution, colorOf: (user: string) => string | undefined) {
+        this._notebook = notebook
+        this._doc = doc
+        this._attribution = attribution
+        this._colorOf = colorOf
+        this._transactionListener = () => this.scheduleRender()
+        doc.on('afterTransaction', this._transactionListener)
+        notebook.model.cells.changed.connect(this.scheduleRender, this)
+    }
+
+    /**
+     * Returns whether the text is colored by author
+     */
+    get enabled(): boolean {
+        return this._enabled
+    }
+
+    /**
+     * Shows or hides the colors of the authors
+     */
+    set enabled(value: boolean) {
+        this._enabled = value
+        this.render()
+    }
+
+    /**
+     * Renders the overlay of all cells
+     */
+    render() {
+        this._marks.forEach(marks => marks.forEach(mark => mark.clear()))
+        this._marks.clear()
+        this._notebook.widgets.forEach(cell => {
+            const cellID = cell.model.metadata.get('rtc-id') as string
+            this.renderLabel(cell.node, cellID)
+            if (this._enabled && cellID) {
+                const editor = (cell.editor as CodeMirrorEditor).editor
+                this._marks.set(cellID, this._attribution.ranges(cellID).map(range => {
+                    // Same color as the cursor and presence of the user, derived from the name when the user is offline
+                    const color = this._colorOf(range.user) || Colors.forUser(range.user)
+                    return editor.markText(editor.posFromIndex(range.from), editor.posFromIndex(range.to), {
+                        css: `background-color: ${color}40`,
+                        title: `Written by ${range.user}`
+                    })
+                }))
+            }
+        })
+    }
+
+    /**
+     * Removes the overlay
+     */
+    dispose() {
+        if (this._timer) {
+            clearTimeout(this._timer)
+        }
+        this._doc.off('afterTransaction', this._transactionListener)
+        this._notebook.model.cells.changed.disconnect(this.scheduleRender, this)
+        this._enabled = false
+        this._marks.forEach(marks => marks.forEach(mark => mark.clear()))
+        this._marks.clear()
+        this._notebook.widgets.forEach(cell => this.renderLabel(cell.node, undefined))
+    }
+
+    /**
+     * Renders the overlay once the current burst of changes is over
+     */
+    private scheduleRender() {
+        if (this._timer) {
+            clearTimeout(this._timer)
+        }
+        this._timer = setTimeout(() => {
+            this._timer = null
+            this.render()
+        }, 200)
+    }
+
+    /**
+     * Renders the label with the last editor of a cell
+     * @param {HTMLElement} node Node of the cell
+     * @param {string} cellID ID of the cell, undefined to remove the label
+     */
+    private renderLabel(node: HTMLElement, cellID: string | undefined) {
+        const editor = cellID ? this._attribution.lastEditor(cellID) : undefined
+        let label = node.querySelector(`:scope > .${LABEL_CLASS}`) as HTMLElement
+        if (!editor) {
+            if (label) {
+                label.remove()
+            }
+            node.classList.remove(LABEL_CELL_CLASS)
+            return
+        }
+        if (!label) {
+            label = document.createElement('div')
+            label.className = LABEL_CLASS
+            node.appendChild(label)
+        }
+        node.classList.add(LABEL_CELL_CLASS)
+        label.textContent = `Last edited by ${editor}`
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { RTCSettings } from './settings'
+
+/**
+ * CheckpointStore class. Stores the states of the checkpoints of a shared notebook on the y-websocket server (see server/history.js),
+ * so they do not have to be kept in the shared document.
+ */
+export class CheckpointStore {
+    private _settings: RTCSettings
+    private _room: string
+    private _token: () => string | undefined
+
+    /**
+     *
+     * @param {RTCSettings} settings Settings of the extension
+     * @param {string} room ID of the shared notebook
+     * @param {() => string | undefined} token Returns the current access token of the room
+     */
+    constructor(settings: RTCSettings, room: string, token: () => string | undefined) {
+        this._settings = settings
+        this._room = room
+        this._token = token
+    }
+
+    /**
+     * Returns the IDs of the stored checkpoints, from old to new
+     * @returns {Promise<string[]>}
+     */
+    async list(): Promise<string[]> {
+        const response = await this.request('')
+        return (await response.json()).checkpoints as string[]
+    }
+
+    /**
+     * Returns the state of a checkpoint
+     * @param {string} id ID of the checkpoint
+     * @returns {Promise<Uint8Array>} Update that can be applied with Y.applyUpdateV2
+     */
+    async load(id: string): Promise<Uint8Array> {
+        const response = await this.request(`/${id}`)
+        return new Uint8Array(await response.arrayBuffer())
+    }
+
+    /**
+     * Stores the state of a checkpoint. The server removes the oldest checkpoints when the room exceeds its storage limits.
+     * @param {string} id ID of the checkpoint
+     * @param {Uint8Array} state Update encoded with Y.encodeStateAsUpdateV2
+     * @returns {Promise<string[]>} IDs of the checkpoints that are still stored, from old to new
+     */
+    async save(id: string, state: Uint8Array): Promise<string[]> {
+        const response = await this.request(`/${id}`, { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, body: state })
+        return (await response.json()).checkpoints as string[]
+    }
+
+    /**
+     * Sends a request to the checkpoint endpoint of the room
+     * @param {string} path Path below the endpoint of the room
+     * @param {RequestInit} init Options of the request
+     * @returns {Promise<Response>} Successful response
+     */
+    private async request(path: string, init?: RequestInit): Promise<Response> {
+        const token = this._token()
+        const query = token ? `?token=${encodeURIComponent(token)}` : ''
+        const response = await fetch(`${this._settings.httpUrl}/history/${encodeURIComponent(this._room)}${path}${query}`, init)
+        if (!response.ok) {
+            const body: { message?: string } = await response.json().catch(() => ({}))
+            throw new Error(body.message || `The y-websocket server answered ${response.status}.`)
+        }
+        return response
+    }
+}
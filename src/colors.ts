@@ -1,50 +1,110 @@
 export class Colors {
     private static names = [
-        "#00ffff",
-        "#f0ffff",
-        "#f5f5dc",
-        "#000000",
-        "#0000ff",
-        "#a52a2a",
-        "#00ffff",
-        "#00008b",
-        "#008b8b",
-        "#a9a9a9",
-        "#006400",
-        "#bdb76b",
-        "#8b008b",
-        "#556b2f",
-        "#ff8c00",
-        "#9932cc",
-        "#8b0000",
-        "#e9967a",
-        "#9400d3",
-        "#ff00ff",
-        "#ffd700",
-        "#008000",
-        "#4b0082",
-        "#f0e68c",
-        "#add8e6",
-        "#e0ffff",
-        "#90ee90",
-        "#d3d3d3",
-        "#ffb6c1",
-        "#ffffe0",
-        "#00ff00",
-        "#ff00ff",
+        "#e6194b",
+        "#3cb44b",
+        "#4363d8",
+        "#f58231",
+        "#911eb4",
+        "#46f0f0",
+        "#f032e6",
+        "#bcf60c",
+        "#008080",
+        "#9a6324",
         "#800000",
-        "#000080",
         "#808000",
-        "#ffa500",
-        "#ffc0cb",
-        "#800080",
-        "#800080",
-        "#ff0000",
-        "#ffff00"
+        "#000075",
+        "#ffe119",
+        "#fabebe",
+        "#aaffc3",
+        "#e6beff",
+        "#ffd8b1",
+        "#808080",
+        "#1f77b4",
+        "#d62728",
+        "#17becf"
     ]
 
-    public static random() {
-        const randomElement = this.names[Math.floor(Math.random() * this.names.length)];
-        return randomElement.toUpperCase();
+    /**
+     * Minimal contrast ratio between a user color and the background of the theme
+     */
+    private static minContrast = 2.5
+
+    /**
+     * Returns the color of a user. The color is derived from the username, readable on the given background
+     * and, if possible, not yet used by one of the other users.
+     * @param {string} name JupyterHub username
+     * @param {string[]} taken Colors of the other connected users
+     * @param {string} background Background color of the active theme
+     * @returns {string} Hexadecimal color
+     */
+    public static forUser(name: string, taken: string[] = [], background: string = Colors.background()): string {
+        let palette = this.names.filter(color => this.contrast(color, background) >= this.minContrast)
+        if (palette.length === 0) {
+            palette = this.names
+        }
+        const used = new Set(taken.map(color => color.toUpperCase()))
+        const start = this.hash(name || '') % palette.length
+        for (let i = 0; i < palette.length; i++) {
+            const color = palette[(start + i) % palette.length].toUpperCase()
+            if (!used.has(color)) {
+                return color
+            }
+        }
+        return palette[start].toUpperCase()
+    }
+
+    /**
+     * Returns the background color of the active JupyterLab theme
+     * @returns {string} Hexadecimal color
+     */
+    public static background(): string {
+        const color = getComputedStyle(document.body).getPropertyValue('--jp-layout-color0').trim()
+        if (color.startsWith('#')) {
+            return color
+        }
+        return document.body.dataset.jpThemeLight === 'false' ? '#111111' : '#ffffff'
+    }
+
+    /**
+     * Computes the WCAG contrast ratio between two colors
+     * @param {string} a Hexadecimal color
+     * @param {string} b Hexadecimal color
+     * @returns {number} Contrast ratio between 1 and 21
+     */
+    public static contrast(a: string, b: string): number {
+        const la = this.luminance(a)
+        const lb = this.luminance(b)
+        return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05)
+    }
+
+    /**
+     * Computes the relative luminance of a color
+     * @param {string} color Hexadecimal color
+     * @returns {number}
+     */
+    private static luminance(color: string): number {
+        let hex = color.replace('#', '')
+        if (hex.length === 3) {
+            hex = hex.split('').map(c => c + c).join('')
+        }
+        const channels = [0, 2, 4].map(i => {
+            const c = parseInt(hex.substr(i, 2), 16) / 255
+            return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+        })
+        return 0.2126 * channels[0] + 0.7152 * channels[1] + 0.0722 * channels[2]
+    }
+
+    /**
+     * FNV-1a hash of a string
+     * @param {string} value
+     * @returns {number} Unsigned 32 bit hash
+     */
+    private static hash(value: string): number {
+        let hash = 0x811c9dc5
+        for (let i = 0; i < value.length; i++) {
+            hash ^= value.charCodeAt(i)
+            hash = Math.imul(hash, 0x01000193)
+        }
+        return hash >>> 0
     }
 }
@@ -0,0 +1,62 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { Widget } from '@lumino/widgets'
+
+/**
+ * Status of the connection with the y-websocket server, as emitted by the provider
+ */
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected'
+
+/**
+ * Toolbar item that shows the status of the connection with the y-websocket server
+ */
+export class ConnectionStatus extends Widget {
+
+    constructor() {
+        super()
+        this.addClass('rtc-connection-status')
+    }
+
+    /**
+     * Render the status
+     * @param {ConnectionState} state State of the WebSocket connection
+     * @param {boolean} synced Whether the initial sync with the server completed since the last connection
+     * @param {boolean} unsynced Whether there are local changes the server has not received yet
+     */
+    render(state: ConnectionState, synced: boolean, unsynced: boolean) {
+        const description = ConnectionStatus.describe(state, synced, unsynced)
+        this.node.textContent = description.label
+        this.node.title = description.title
+        this.node.dataset.state = description.state
+    }
+
+    /**
+     * Returns the label, explanation and displayed state of a connection status
+     * @param {ConnectionState} state State of the WebSocket connection
+     * @param {boolean} synced Whether the initial sync with the server completed since the last connection
+     * @param {boolean} unsynced Whether there are local changes the server has not received yet
+     * @returns {{ label: string, title: string, state: ConnectionState }}
+     */
+    static describe(state: ConnectionState, synced: boolean, unsynced: boolean): { label: string, title: string, state: ConnectionState } {
+        let label: string
+        let title: string
+        if (state === 'connected' && synced) {
+            label = 'Online'
+            title = 'Connected to the collaboration server'
+        }
+        else if (state === 'disconnected') {
+            label = 'Offline'
+            title = 'Not connected to the collaboration server, your changes are kept in this browser and shared when the connection is restored'
+        }
+        else {
+            label = 'Connecting'
+            title = 'Connecting to the collaboration server'
+        }
+        if (unsynced) {
+            label = `${label} (unsynced changes)`
+        }
+        return { label: label, title: title, state: state === 'connected' && !synced ? 'connecting' : state }
+    }
+}
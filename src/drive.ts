@@ -0,0 +1,156 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { Contents, ServerConnection } from '@jupyterlab/services'
+import { PathExt } from '@jupyterlab/coreutils'
+import { ISignal, Signal } from '@lumino/signaling'
+
+/**
+ * MemoryDrive class. Contents drive that keeps notebooks in the memory of the browser, so a shared notebook can be joined
+ * without creating a file. Its files are lost when JupyterLab is closed, "Save As" copies them to the Jupyter server.
+ */
+export class MemoryDrive implements Contents.IDrive {
+    private _serverSettings: ServerConnection.ISettings
+    private _files = new Map<string, Contents.IModel>()
+    private _fileChanged = new Signal<Contents.IDrive, Contents.IChangedArgs>(this)
+    private _isDisposed: boolean = false
+
+    /**
+     * Name of the drive, paths on the drive are prefixed with it, e.g. `SharedMemory:notebook.ipynb`
+     */
+    readonly name = 'SharedMemory'
+
+    /**
+     *
+     * @param {ServerConnection.ISettings} serverSettings Settings of the Jupyter server
+     */
+    constructor(serverSettings: ServerConnection.ISettings) {
+        this._serverSettings = serverSettings
+    }
+
+    get serverSettings(): ServerConnection.ISettings {
+        return this._serverSettings
+    }
+
+    get fileChanged(): ISignal<Contents.IDrive, Contents.IChangedArgs> {
+        return this._fileChanged
+    }
+
+    get isDisposed(): boolean {
+        return this._isDisposed
+    }
+
+    dispose() {
+        if (this._isDisposed) {
+            return
+        }
+        this._isDisposed = true
+        this._files.clear()
+        Signal.clearData(this)
+    }
+
+    /**
+     * Returns whether a file exists on the drive
+     * @param {string} localPath Path of the file without the name of the drive
+     * @returns {boolean}
+     */
+    has(localPath: string): boolean {
+        return this._files.has(localPath)
+    }
+
+    get(localPath: string, options?: Contents.IFetchOptions): Promise<Contents.IModel> {
+        const file = this._files.get(localPath)
+        if (file) {
+            return Promise.resolve(options && options.content === false ? { ...file, content: null, format: null } : { ...file })
+        }
+        if (localPath === '') {
+            const now = new Date().toISOString()
+            return Promise.resolve({
+                name: '',
+                path: '',
+                type: 'directory',
+                writable: false,
+                created: now,
+                last_modified: now,
+                mimetype: null,
+                format: 'json',
+                content: Array.from(this._files.values()).map(model => ({ ...model, content: null, format: null }))
+            })
+        }
+        return Promise.reject(new Error(`${localPath} does not exist`))
+    }
+
+    getDownloadUrl(localPath: string): Promise<string> {
+        return Promise.reject(new Error(`${localPath} is only kept in memory and cannot be downloaded`))
+    }
+
+    newUntitled(_options?: Contents.ICreateOptions): Promise<Contents.IModel> {
+        return Promise.reject(new Error('Files cannot be created in memory, join a shared notebook instead'))
+    }
+
+    delete(localPath: string): Promise<void> {
+        const file = this._files.get(localPath)
+        if (file) {
+            this._files.delete(localPath)
+            this._fileChanged.emit({ type: 'delete', oldValue: file, newValue: null })
+        }
+        return Promise.resolve()
+    }
+
+    rename(oldLocalPath: string, newLocalPath: string): Promise<Contents.IModel> {
+        const file = this._files.get(oldLocalPath)
+        if (!file) {
+            return Promise.reject(new Error(`${oldLocalPath} does not exist`))
+        }
+        if (this._files.has(newLocalPath)) {
+            return Promise.reject(new Error(`${newLocalPath} already exists`))
+        }
+        const renamed = { ...file, name: PathExt.basename(newLocalPath), path: newLocalPath }
+        this._files.delete(oldLocalPath)
+        this._files.set(newLocalPath, renamed)
+        this._fileChanged.emit({ type: 'rename', oldValue: file, newValue: renamed })
+        return Promise.resolve({ ...renamed })
+    }
+
+    save(localPath: string, options: Partial<Contents.IModel> = {}): Promise<Contents.IModel> {
+        const old = this._files.get(localPath)
+        const now = new Date().toISOString()
+        const file: Contents.IModel = {
+            name: PathExt.basename(localPath),
+            path: localPath,
+            type: options.type || (old ? old.type : 'notebook'),
+            writable: true,
+            created: old ? old.created : now,
+            last_modified: now,
+            mimetype: options.mimetype || (old ? old.mimetype : null),
+            format: options.format || (old ? old.format : 'json'),
+            content: options.content !== undefined ? options.content : (old ? old.content : null)
+        }
+        this._files.set(localPath, file)
+        this._fileChanged.emit({ type: old ? 'save' : 'new', oldValue: old || null, newValue: file })
+        return Promise.resolve({ ...file, content: null })
+    }
+
+    copy(localPath: string, _toLocalDir: string): Promise<Contents.IModel> {
+        return Promise.reject(new Error(`${localPath} is only kept in memory, use "Save As" to copy it`))
+    }
+
+    createCheckpoint(localPath: string): Promise<Contents.ICheckpointModel> {
+        // The history of a shared notebook is kept by the y-websocket server, see NotebookHistory
+        const file = this._files.get(localPath)
+        return Promise.resolve({ id: 'memory', last_modified: file ? file.last_modified : new Date().toISOString() })
+    }
+
+    listCheckpoints(_localPath: string): Promise<Contents.ICheckpointModel[]> {
+        return Promise.resolve([])
+    }
+
+    restoreCheckpoint(localPath: string, _checkpointID: string): Promise<void> {
+        return Promise.reject(new Error(`${localPath} has no checkpoints`))
+    }
+
+    deleteCheckpoint(_localPath: string, _checkpointID: string): Promise<void> {
+        return Promise.resolve()
+    }
+}
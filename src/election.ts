@@ -0,0 +1,246 @@
+/**
+ * @author Mariën Jan
+ */
+
+import * as Y from 'yjs'
+import { WebsocketProvider } from 'y-websocket'
+import { ISignal, Signal } from '@lumino/signaling'
+
+type Awareness = WebsocketProvider['awareness']
+
+/**
+ * Client that executes the cells of the shared notebook
+ */
+export interface IHost {
+    clientID: number
+    name: string
+    term: number
+    confirmed: boolean
+}
+
+/**
+ * HostElection class. Elects the hosting client, keyed on the awareness clientID.
+ *
+ * Every client publishes a heartbeat in its awareness state. When the host stops sending heartbeats,
+ * the eligible client with the lowest clientID proposes itself for the next term. The other clients confirm
+ * the proposal by voting for that term in their awareness state, the candidate only becomes host once all
+ * of them voted or the timeout expired.
+ */
+export class HostElection {
+    private _map: Y.Map<IHost>
+    private _clientID: number
+    private _name: string
+    private _eligible: () => boolean
+    private _awareness: Awareness | null = null
+    private _lastSeen = new Map<number, number>()
+    private _proposedAt: number = 0
+    private _timer: ReturnType<typeof setInterval> | null = null
+    private _changed = new Signal<HostElection, void>(this)
+    private _mapObserver: () => void
+    private _awarenessObserver: (changes: { added: number[], updated: number[], removed: number[] }) => void
+
+    /**
+     * Interval in milliseconds between two heartbeats
+     */
+    static heartbeatInterval = 5000
+
+    /**
+     * Time in milliseconds without heartbeat after which a client is considered gone,
+     * also the time a candidate waits for the votes of the other clients
+     */
+    static timeout = 15000
+
+    /**
+     *
+     * @param {Y.Doc} doc Shared Y.Doc
+     * @param {string} name JupyterHub username of the local user
+     * @param {() => boolean} eligible Returns whether the local client is allowed to host
+     */
+    constructor(doc: Y.Doc, name: string, eligible: () => boolean) {
+        this._map = doc.getMap('election')
+        this._clientID = doc.clientID
+        this._name = name
+        this._eligible = eligible
+        this._mapObserver = () => {
+            const host = this.host
+            if (host && host.clientID === this._clientID && !host.confirmed) {
+                // Proposed by the previous host
+                this._proposedAt = Date.now()
+            }
+            this.evaluate()
+            this._changed.emit()
+        }
+        this._awarenessObserver = changes => {
+            const now = Date.now()
+            changes.added.concat(changes.updated).forEach(clientID => this._lastSeen.set(clientID, now))
+            changes.removed.forEach(clientID => this._lastSeen.delete(clientID))
+            this.evaluate()
+        }
+        this._map.observe(this._mapObserver)
+    }
+
+    /**
+     * Makes the creator of a new shared notebook its first host
+     * @param {Y.Doc} doc Shared Y.Doc
+     * @param {string} name JupyterHub username of the creator
+     */
+    static initialise(doc: Y.Doc, name: string) {
+        doc.getMap('election').set('host', { clientID: doc.clientID, name: name, term: 1, confirmed: true })
+    }
+
+    /**
+     * Signal emitted when the host changes
+     */
+    get changed(): ISignal<HostElection, void> {
+        return this._changed
+    }
+
+    /**
+     * Returns the current host, which may still be waiting for confirmation
+     */
+    get host(): IHost | undefined {
+        return this._map.get('host')
+    }
+
+    /**
+     * Returns whether the local client is the confirmed host
+     */
+    get isHost(): boolean {
+        const host = this.host
+        return !!host && host.confirmed && host.clientID === this._clientID
+    }
+
+    /**
+     * Start sending heartbeats through the awareness of a provider and take part in the election
+     * @param {Awareness} awareness Awareness of the WebSocket provider
+     */
+    connect(awareness: Awareness) {
+        this.disconnect()
+        this._awareness = awareness
+        const now = Date.now()
+        awareness.getStates().forEach((_state, clientID) => this._lastSeen.set(clientID, now))
+        awareness.on('update', this._awarenessObserver)
+        this._timer = setInterval(() => {
+            awareness.setLocalStateField('heartbeat', Date.now())
+            this.evaluate()
+        }, HostElection.heartbeatInterval)
+        awareness.setLocalStateField('heartbeat', now)
+        this.evaluate()
+    }
+
+    /**
+     * Stop sending heartbeats
+     */
+    disconnect() {
+        if (this._awareness) {
+            this._awareness.off('update', this._awarenessObserver)
+            this._awareness = null
+        }
+        if (this._timer) {
+            clearInterval(this._timer)
+            this._timer = null
+        }
+        this._lastSeen.clear()
+    }
+
+    /**
+     * Hands the host role to the eligible client with the lowest clientID, used when the host leaves.
+     * The successor still waits for the confirmation of the other clients.
+     */
+    handoff() {
+        const host = this.host
+        if (!host || host.clientID !== this._clientID) {
+            return
+        }
+        const successor = this.candidates().filter(clientID => clientID !== this._clientID).sort((a, b) => a - b)[0]
+        if (successor === undefined) {
+            return
+        }
+        const state = this._awareness.getStates().get(successor)
+        this._map.set('host', { clientID: successor, name: state.user.name, term: host.term + 1, confirmed: false })
+    }
+
+    /**
+     * Stop taking part in the election
+     */
+    dispose() {
+        this.disconnect()
+        this._map.unobserve(this._mapObserver)
+        Signal.clearData(this)
+    }
+
+    /**
+     * Checks the liveness of the host and takes the next step of the election
+     */
+    private evaluate() {
+        if (!this._awareness) {
+            return
+        }
+        const host = this.host
+        if (host && host.clientID === this._clientID && !this._eligible()) {
+            // The host became a viewer
+            this.handoff()
+            return
+        }
+        if (host && this.isAlive(host.clientID)) {
+            if (host.clientID === this._clientID && !host.confirmed) {
+                this.confirm(host)
+            }
+            else if (!host.confirmed && this.localState().vote !== host.term) {
+                this._awareness.setLocalStateField('vote', host.term)
+            }
+            return
+        }
+        const candidate = this.candidates().sort((a, b) => a - b)[0]
+        if (candidate === this._clientID) {
+            this._proposedAt = Date.now()
+            this._map.set('host', { clientID: this._clientID, name: this._name, term: host ? host.term + 1 : 1, confirmed: false })
+        }
+    }
+
+    /**
+     * Confirms the local client as host once every other eligible client voted for its term, or the timeout expired
+     * @param {IHost} host Proposal of the local client
+     */
+    private confirm(host: IHost) {
+        const states = this._awareness.getStates()
+        const waiting = this.candidates().filter(clientID => {
+            return clientID !== this._clientID && states.get(clientID).vote !== host.term
+        })
+        if (waiting.length === 0 || Date.now() - this._proposedAt >= HostElection.timeout) {
+            this._map.set('host', { ...host, confirmed: true })
+        }
+    }
+
+    /**
+     * Returns the clientIDs of the connected clients that are allowed to host
+     * @returns {number[]}
+     */
+    private candidates(): number[] {
+        return Array.from(this._awareness.getStates().keys()).filter(clientID => this.isAlive(clientID))
+    }
+
+    /**
+     * Returns whether a client is connected, allowed to host and sent a heartbeat recently
+     * @param {number} clientID Awareness clientID
+     * @returns {boolean}
+     */
+    private isAlive(clientID: number): boolean {
+        if (clientID === this._clientID) {
+            return this._eligible()
+        }
+        const state = this._awareness.getStates().get(clientID)
+        if (!state || state.role === 'viewer' || !state.user) {
+            return false
+        }
+        return Date.now() - (this._lastSeen.get(clientID) || 0) < HostElection.timeout
+    }
+
+    /**
+     * Returns the awareness state of the local client
+     * @returns {{ vote?: number }}
+     */
+    private localState(): { vote?: number } {
+        return this._awareness.getLocalState() || {}
+    }
+}
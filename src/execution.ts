@@ -0,0 +1,279 @@
+/**
+ * @author Mariën Jan
+ */
+
+import * as Y from 'yjs'
+import { v4 as uuid } from 'uuid'
+import { ISignal, Signal } from '@lumino/signaling'
+import { JSONExt } from '@lumino/coreutils'
+import { Widget } from '@lumino/widgets'
+import { IKernelspecMetadata, ILanguageInfoMetadata } from '@jupyterlab/nbformat'
+
+/**
+ * State of an execution request
+ */
+export type ExecutionState = 'queued' | 'running' | 'done' | 'error'
+
+/**
+ * Command that participants can send to the kernel of the hosting client
+ */
+export type KernelCommand = 'interrupt' | 'restart'
+
+/**
+ * Request to execute a cell on the kernel of the hosting client
+ */
+export interface IExecution {
+    id: string
+    cell: string
+    requester: string
+    state: ExecutionState
+    time: number
+}
+
+/**
+ * Request to interrupt or restart the kernel of the hosting client
+ */
+export interface IKernelCommand {
+    id: string
+    command: KernelCommand
+    requester: string
+}
+
+/**
+ * ExecutionQueue class. Shares the execution requests, kernel commands and kernel status through the Y.Doc.
+ * Only the hosting client executes the requests and commands.
+ */
+export class ExecutionQueue {
+    private _executions: Y.Array<Y.Map<any>>
+    private _commands: Y.Array<IKernelCommand>
+    private _kernel: Y.Map<any>
+    private _changed = new Signal<ExecutionQueue, void>(this)
+    private _observer: () => void
+
+    /**
+     * Number of finished requests that are kept in the queue
+     */
+    private static history = 50
+
+    /**
+     *
+     * @param {Y.Doc} doc Shared Y.Doc
+     */
+    constructor(doc: Y.Doc) {
+        this._executions = doc.getArray('executions')
+        this._commands = doc.getArray('commands')
+        this._kernel = doc.getMap('kernel')
+        this._observer = () => this._changed.emit()
+        this._executions.observeDeep(this._observer)
+        this._commands.observe(this._observer)
+        this._kernel.observe(this._observer)
+    }
+
+    /**
+     * Signal emitted when the queue, the commands or the kernel status change
+     */
+    get changed(): ISignal<ExecutionQueue, void> {
+        return this._changed
+    }
+
+    /**
+     * Returns all requests in the order they were made
+     */
+    get executions(): IExecution[] {
+        return this._executions.map(entry => entry.toJSON() as IExecution)
+    }
+
+    /**
+     * Returns the requests that are queued or running
+     */
+    get pending(): IExecution[] {
+        return this.executions.filter(execution => execution.state === 'queued' || execution.state === 'running')
+    }
+
+    /**
+     * Returns the status of the kernel of the hosting client
+     */
+    get kernelStatus(): string {
+        return this._kernel.get('status') || 'unknown'
+    }
+
+    /**
+     * Publish the status of the kernel, only called by the hosting client
+     * @param {string} status Status of the kernel
+     */
+    set kernelStatus(status: string) {
+        if (this._kernel.get('status') !== status) {
+            this._kernel.set('status', status)
+        }
+    }
+
+    /**
+     * Returns the id of the kernel on the Jupyter server that is shared by all participants
+     */
+    get kernelID(): string | undefined {
+        return this._kernel.get('id')
+    }
+
+    /**
+     * Returns the name of the shared kernel
+     */
+    get kernelName(): string | undefined {
+        return this._kernel.get('name')
+    }
+
+    /**
+     * Publish the kernel on the Jupyter server that all participants should connect to
+     * @param {string} id ID of the kernel
+     * @param {string} name Name of the kernel
+     */
+    shareKernel(id: string, name: string) {
+        this._kernel.doc.transact(() => {
+            this._kernel.set('id', id)
+            this._kernel.set('name', name)
+        })
+    }
+
+    /**
+     * Returns the kernelspec of the notebook of the owner
+     */
+    get kernelspec(): IKernelspecMetadata | undefined {
+        return this._kernel.get('kernelspec') as IKernelspecMetadata | undefined
+    }
+
+    /**
+     * Returns the language info of the notebook of the owner
+     */
+    get languageInfo(): ILanguageInfoMetadata | undefined {
+        return this._kernel.get('language_info') as ILanguageInfoMetadata | undefined
+    }
+
+    /**
+     * Publish the kernelspec and language info of the notebook of the owner
+     * @param {IKernelspecMetadata} kernelspec
+     * @param {ILanguageInfoMetadata} languageInfo
+     */
+    shareKernelspec(kernelspec: IKernelspecMetadata | undefined, languageInfo: ILanguageInfoMetadata | undefined) {
+        this._kernel.doc.transact(() => {
+            if (kernelspec && !JSONExt.deepEqual(this.kernelspec, kernelspec)) {
+                this._kernel.set('kernelspec', kernelspec)
+            }
+            if (languageInfo && !JSONExt.deepEqual(this.languageInfo, languageInfo)) {
+                this._kernel.set('language_info', languageInfo)
+            }
+        })
+    }
+
+    /**
+     * Queue the execution of a cell
+     * @param {string} cellID ID of the cell
+     * @param {string} requester Name of the user requesting the execution
+     */
+    request(cellID: string, requester: string) {
+        const entry = new Y.Map<any>()
+        entry.set('id', uuid().toString())
+        entry.set('cell', cellID)
+        entry.set('requester', requester)
+        entry.set('state', 'queued')
+        entry.set('time', Date.now())
+        this._executions.push([entry])
+    }
+
+    /**
+     * Send a command to the kernel of the hosting client
+     * @param {KernelCommand} command
+     * @param {string} requester Name of the user sending the command
+     */
+    command(command: KernelCommand, requester: string) {
+        this._commands.push([{ id: uuid().toString(), command: command, requester: requester }])
+    }
+
+    /**
+     * Removes and returns the commands that have not been executed yet
+     * @returns {IKernelCommand[]}
+     */
+    takeCommands(): IKernelCommand[] {
+        const commands = this._commands.toArray()
+        if (commands.length > 0) {
+            this._commands.delete(0, commands.length)
+        }
+        return commands
+    }
+
+    /**
+     * Marks the oldest queued request as running and returns it
+     * @returns {IExecution | undefined}
+     */
+    start(): IExecution | undefined {
+        const entry = this._executions.toArray().find(e => e.get('state') === 'queued')
+        if (!entry) {
+            return undefined
+        }
+        entry.set('state', 'running')
+        return entry.toJSON() as IExecution
+    }
+
+    /**
+     * Queues the requests that were running on a previous host again
+     */
+    requeue() {
+        this._executions.forEach(entry => {
+            if (entry.get('state') === 'running') {
+                entry.set('state', 'queued')
+            }
+        })
+    }
+
+    /**
+     * Sets the state of a request and removes the oldest finished requests
+     * @param {string} id ID of the request
+     * @param {ExecutionState} state New state
+     */
+    finish(id: string, state: ExecutionState) {
+        const entries = this._executions.toArray()
+        const entry = entries.find(e => e.get('id') === id)
+        if (entry) {
+            entry.set('state', state)
+        }
+        const finished = entries.filter(e => e.get('state') === 'done' || e.get('state') === 'error')
+        for (let i = 0; i < finished.length - ExecutionQueue.history; i++) {
+            this._executions.delete(this._executions.toArray().indexOf(finished[i]), 1)
+        }
+    }
+
+    /**
+     * Stop observing the Y.Doc
+     */
+    dispose() {
+        this._executions.unobserveDeep(this._observer)
+        this._commands.unobserve(this._observer)
+        this._kernel.unobserve(this._observer)
+        Signal.clearData(this)
+    }
+}
+
+/**
+ * Toolbar item that shows the status of the shared kernel and the pending execution requests
+ */
+export class KernelStatus extends Widget {
+
+    constructor() {
+        super()
+        this.addClass('rtc-kernel-status')
+    }
+
+    /**
+     * Render the status
+     * @param {string} name Display name of the shared kernel
+     * @param {string} status Status of the kernel of the hosting client
+     * @param {IExecution[]} pending Requests that are queued or running
+     * @param {(cellID: string) => number} cellIndex Returns the index of a cell
+     */
+    render(name: string, status: string, pending: IExecution[], cellIndex: (cellID: string) => number) {
+        const label = `${name || 'Shared kernel'} (shared): ${status}`
+        this.node.textContent = pending.length > 0 ? `${label}, ${pending.length} queued` : label
+        this.node.dataset.status = status
+        this.node.title = pending.map(execution => {
+            return `Cell ${cellIndex(execution.cell) + 1}: ${execution.state}, requested by ${execution.requester}`
+        }).join('\n')
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { ICell, INotebookContent } from '@jupyterlab/nbformat'
+import { INotebookModel } from '@jupyterlab/notebook'
+import { JSONExt } from '@lumino/coreutils'
+import { CELL_METADATA_EXCLUDED } from './metadata'
+
+/**
+ * Metadata keys the extension adds to a shared notebook
+ */
+export const NOTEBOOK_METADATA_RTC = ['rtc-id', 'rtc-doc', 'rtc-token', 'owner']
+
+/**
+ * CleanNotebook class. Removes the metadata of the extension from notebooks, so they can be handed in or committed.
+ */
+export class CleanNotebook {
+
+    /**
+     * Returns a copy of the notebook content without the metadata of the extension
+     * @param {INotebookContent} content Notebook content
+     * @returns {INotebookContent}
+     */
+    static strip(content: INotebookContent): INotebookContent {
+        const clean = JSONExt.deepCopy(content)
+        NOTEBOOK_METADATA_RTC.forEach(key => delete clean.metadata[key])
+        clean.cells.forEach((cell: ICell) => {
+            CELL_METADATA_EXCLUDED.forEach(key => delete cell.metadata[key])
+        })
+        return clean
+    }
+
+    /**
+     * Removes the metadata of the extension from a notebook model
+     * @param {INotebookModel} model Notebook model
+     */
+    static stripModel(model: INotebookModel) {
+        NOTEBOOK_METADATA_RTC.forEach(key => model.metadata.delete(key))
+        for (let i = 0; i < model.cells.length; i++) {
+            const metadata = model.cells.get(i).metadata
+            CELL_METADATA_EXCLUDED.forEach(key => metadata.delete(key))
+        }
+    }
+}
@@ -0,0 +1,387 @@
+/**
+ * @author Mariën Jan
+ */
+
+import * as Y from 'yjs'
+import { v4 as uuid } from 'uuid'
+import { ICell, CellType, ICodeCell, IMarkdownCell, IRawCell } from '@jupyterlab/nbformat'
+import { JSONExt } from '@lumino/coreutils'
+import { ArrayExt } from '@lumino/algorithm'
+import { ISignal, Signal } from '@lumino/signaling'
+import { SharedOutputs } from './outputs'
+import { RTCSettings } from './settings'
+import { CheckpointStore } from './checkpoints'
+
+/**
+ * Checkpoint of the shared document, its state is kept in the CheckpointStore or in the shared document
+ */
+export interface ICheckpoint {
+    id: string
+    time: number
+    author: string
+    label: string
+}
+
+/**
+ * Top-level types of the Y.Doc that do not belong to the content of the notebook
+ */
+const NON_CONTENT_TYPES = ['history', 'checkpoints', 'executions', 'commands', 'kernel', 'election', 'users', 'title', 'room']
+
+/**
+ * NotebookHistory class. Takes checkpoints of the shared document and restores them.
+ * The state of a checkpoint is a copy of the document without the states of the other checkpoints. It is stored on the
+ * y-websocket server when the server supports it (see server/history.js), otherwise in the `checkpoints` map of the shared
+ * document, which is sent to every participant and saved in the notebook.
+ */
+export class NotebookHistory {
+    private _doc: Y.Doc
+    private _history: Y.Array<ICheckpoint>
+    private _states: Y.Map<Uint8Array>
+    private _settings: RTCSettings
+    private _outputs: SharedOutputs
+    private _store: CheckpointStore
+    private _serverStore: boolean = false
+    private _isDisposed: boolean = false
+    private _changed = new Signal<NotebookHistory, void>(this)
+    private _observer: () => void
+    private _transactionListener: (t: Y.Transaction) => void
+    private _modified: boolean = false
+    private _timer: ReturnType<typeof setInterval> | null = null
+
+    /**
+     * Maximum number of checkpoints, the oldest are removed first
+     */
+    static limit = 100
+
+    /**
+     *
+     * @param {Y.Doc} doc Shared Y.Doc
+     * @param {RTCSettings} settings Settings of the extension
+     * @param {SharedOutputs} outputs Shared outputs of the Y.Doc
+     * @param {CheckpointStore} store Storage of the states of the checkpoints
+     */
+    constructor(doc: Y.Doc, settings: RTCSettings, outputs: SharedOutputs, store: CheckpointStore) {
+        this._doc = doc
+        this._history = doc.getArray('history')
+        this._states = doc.getMap('checkpoints')
+        this._settings = settings
+        this._outputs = outputs
+        this._store = store
+        this._observer = () => this._changed.emit()
+        this._history.observe(this._observer)
+        this._transactionListener = t => {
+            const ignored = NON_CONTENT_TYPES.map(name => doc.share.get(name))
+            t.changed.forEach((_keys, type) => {
+                while (type._item) {
+                    type = type._item.parent as Y.AbstractType<any>
+                }
+                if (ignored.indexOf(type) === -1) {
+                    this._modified = true
+                }
+            })
+        }
+        doc.on('afterTransaction', this._transactionListener)
+    }
+
+    /**
+     * Signal emitted when a checkpoint is added or removed
+     */
+    get changed(): ISignal<NotebookHistory, void> {
+        return this._changed
+    }
+
+    /**
+     * Returns whether the state of a checkpoint can be loaded. Checkpoints stored on the y-websocket server
+     * cannot be loaded when the server does not accept the access token of this client.
+     * @param {ICheckpoint} checkpoint
+     * @returns {boolean}
+     */
+    isAvailable(checkpoint: ICheckpoint): boolean {
+        return this._serverStore || this._states.has(checkpoint.id)
+    }
+
+    /**
+     * Checks whether the y-websocket server stores checkpoints, should be called once the access token is known
+     * @returns {Promise<void>}
+     */
+    refresh(): Promise<void> {
+        return this._store.list().then(() => true, () => false).then(serverStore => {
+            this._serverStore = serverStore
+            this._changed.emit()
+        })
+    }
+
+    /**
+     * Returns the checkpoints from old to new
+     */
+    get checkpoints(): ICheckpoint[] {
+        return this._history.toArray()
+    }
+
+    /**
+     * Stores a checkpoint of the current state
+     * @param {string} author Name of the user taking the checkpoint
+     * @param {string} label Description of the checkpoint
+     * @returns {Promise<void>}
+     */
+    checkpoint(author: string, label: string): Promise<void> {
+        const checkpoint: ICheckpoint = {
+            id: uuid().toString(),
+            time: Date.now(),
+            author: author,
+            label: label
+        }
+        this._modified = false
+        const state = this.encodeState()
+        const saved = this._serverStore ? this._store.save(checkpoint.id, state) : Promise.resolve(null)
+        return saved.then(stored => {
+            if (this._isDisposed) {
+                return
+            }
+            this._doc.transact(() => {
+                if (!stored) {
+                    this._states.set(checkpoint.id, state)
+                }
+                this._history.push([checkpoint])
+                for (let i = this._history.length - 1; i >= 0; i--) {
+                    const id = this._history.get(i).id
+                    // The server removes the oldest checkpoints when the notebook exceeds its storage limit
+                    const removed = stored && stored.indexOf(id) === -1 && !this._states.has(id)
+                    if (removed || i < this._history.length - NotebookHistory.limit) {
+                        this._states.delete(id)
+                        this._history.delete(i, 1)
+                    }
+                }
+            }, this)
+        })
+    }
+
+    /**
+     * Takes a checkpoint every `checkpointInterval` minutes when the content of the notebook changed
+     * @param {string} author Name of the local user
+     * @param {() => boolean} allowed Returns whether the local client takes the periodic checkpoints, only one client should
+     */
+    startPeriodic(author: string, allowed: () => boolean) {
+        this.stopPeriodic()
+        this._timer = setInterval(() => {
+            const interval = this._settings.checkpointInterval * 60 * 1000
+            const last = this._history.length > 0 ? this._history.get(this._history.length - 1).time : 0
+            if (interval > 0 && this._modified && allowed() && Date.now() - last >= interval) {
+                this.checkpoint(author, 'Automatic checkpoint').catch(() => {
+                    // Retried a minute later
+                    this._modified = true
+                })
+            }
+        }, 60 * 1000)
+    }
+
+    /**
+     * Stop taking periodic checkpoints
+     */
+    stopPeriodic() {
+        if (this._timer) {
+            clearInterval(this._timer)
+            this._timer = null
+        }
+    }
+
+    /**
+     * Returns the cells of the notebook at a checkpoint, with their rtc-id in the metadata
+     * @param {ICheckpoint} checkpoint
+     * @returns {Promise<ICell[]>}
+     */
+    async cells(checkpoint: ICheckpoint): Promise<ICell[]> {
+        const doc = await this.restoreDoc(checkpoint)
+        const outputs = new SharedOutputs(doc, this._settings)
+        const cells = NotebookHistory.cellOrder(doc).map(id => {
+            const entry = (doc.getMap('cells') as Y.Map<Y.Map<any>>).get(id)
+            const metadata = entry.get('metadata') instanceof Y.Map ? entry.get('metadata').toJSON() : {}
+            const type = entry.get('type') as CellType
+            const source = doc.getText(id).toString()
+            if (type === 'code') {
+                const cell: ICodeCell = {
+                    cell_type: 'code',
+                    source: source,
+                    metadata: { ...metadata, 'rtc-id': id },
+                    outputs: outputs.readFull(entry.get('output')),
+                    execution_count: typeof entry.get('tag') === 'number' ? entry.get('tag') : null
+                }
+                return cell
+            }
+            const cell: IMarkdownCell | IRawCell = {
+                cell_type: type as 'markdown' | 'raw',
+                source: source,
+                metadata: { ...metadata, 'rtc-id': id }
+            }
+            if (entry.get('attachments')) {
+                cell.attachments = entry.get('attachments')
+            }
+            return cell
+        })
+        doc.destroy()
+        return cells
+    }
+
+    /**
+     * Restores the whole notebook or a single cell to the state of a checkpoint, as a new change of the shared document
+     * @param {ICheckpoint} checkpoint
+     * @param {string} cellID ID of the cell to restore, the whole notebook is restored if omitted
+     * @returns {Promise<string[]>} IDs of the restored cells
+     */
+    async restore(checkpoint: ICheckpoint, cellID?: string): Promise<string[]> {
+        const source = await this.restoreDoc(checkpoint)
+        if (this._isDisposed) {
+            source.destroy()
+            return []
+        }
+        const ids = NotebookHistory.cellOrder(source)
+        const restored = cellID ? ids.filter(id => id === cellID) : ids
+        const cells = this._doc.getMap('cells') as Y.Map<Y.Map<any>>
+        const order = this._doc.getArray('order') as Y.Array<string>
+        this._doc.transact(() => {
+            restored.forEach(id => this.restoreCell(source, id))
+            if (cellID) {
+                if (restored.length > 0 && NotebookHistory.cellOrder(this._doc).indexOf(cellID) === -1) {
+                    // The cell was deleted, insert it after the cell that preceded it at the checkpoint
+                    const current = order.toArray()
+                    const previous = ids.slice(0, ids.indexOf(cellID)).reverse().find(id => current.indexOf(id) !== -1 && cells.has(id))
+                    order.insert(previous === undefined ? 0 : current.indexOf(previous) + 1, [cellID])
+                }
+                return
+            }
+            Array.from(cells.keys()).forEach(id => {
+                if (ids.indexOf(id) === -1) {
+                    cells.delete(id)
+                }
+            })
+            if (!ArrayExt.shallowEqual(NotebookHistory.cellOrder(this._doc), ids)) {
+                order.delete(0, order.length)
+                order.push(ids)
+            }
+        }, this)
+        source.destroy()
+        return restored
+    }
+
+    /**
+     * Stop observing the Y.Doc
+     */
+    dispose() {
+        this._isDisposed = true
+        this.stopPeriodic()
+        this._history.unobserve(this._observer)
+        this._doc.off('afterTransaction', this._transactionListener)
+        Signal.clearData(this)
+    }
+
+    /**
+     * Creates a document with the state of a checkpoint
+     * @param {ICheckpoint} checkpoint
+     * @returns {Promise<Y.Doc>}
+     */
+    private async restoreDoc(checkpoint: ICheckpoint): Promise<Y.Doc> {
+        const state = this._states.has(checkpoint.id) ? this._states.get(checkpoint.id) : await this._store.load(checkpoint.id)
+        const doc = new Y.Doc()
+        Y.applyUpdateV2(doc, state)
+        return doc
+    }
+
+    /**
+     * Encodes the current state of the shared document without the states of the checkpoints, which would otherwise be
+     * copied into every new checkpoint
+     * @returns {Uint8Array} Update that can be applied with Y.applyUpdateV2
+     */
+    private encodeState(): Uint8Array {
+        const doc = new Y.Doc()
+        Y.applyUpdateV2(doc, Y.encodeStateAsUpdateV2(this._doc))
+        const states = doc.getMap('checkpoints')
+        // Garbage collection drops the content of the deleted states
+        doc.transact(() => Array.from(states.keys()).forEach(id => states.delete(id)))
+        const state = Y.encodeStateAsUpdateV2(doc)
+        doc.destroy()
+        return state
+    }
+
+    /**
+     * Copies a cell of a document created from a checkpoint into the shared document, should be called within a transaction
+     * @param {Y.Doc} source Document created from a checkpoint
+     * @param {string} id ID of the cell
+     */
+    private restoreCell(source: Y.Doc, id: string) {
+        const cells = this._doc.getMap('cells') as Y.Map<Y.Map<any>>
+        const old = (source.getMap('cells') as Y.Map<Y.Map<any>>).get(id)
+        let entry = cells.get(id)
+        if (!entry) {
+            entry = new Y.Map<any>()
+            cells.set(id, entry)
+            entry.set('xCount', 0)
+        }
+        if (entry.get('type') !== old.get('type')) {
+            entry.set('type', old.get('type'))
+        }
+        const text = this._doc.getText(id)
+        const oldText = source.getText(id).toString()
+        if (text.toString() !== oldText) {
+            text.delete(0, text.length)
+            text.insert(0, oldText)
+        }
+        const oldMetadata = old.get('metadata') instanceof Y.Map ? old.get('metadata').toJSON() : {}
+        if (!(entry.get('metadata') instanceof Y.Map)) {
+            entry.set('metadata', new Y.Map())
+        }
+        const metadata = entry.get('metadata') as Y.Map<any>
+        Array.from(metadata.keys()).forEach(key => {
+            if (!(key in oldMetadata)) {
+                metadata.delete(key)
+            }
+        })
+        Object.keys(oldMetadata).forEach(key => {
+            if (!JSONExt.deepEqual(metadata.get(key), oldMetadata[key])) {
+                metadata.set(key, oldMetadata[key])
+            }
+        })
+        if (old.get('type') === 'code') {
+            if (!(entry.get('output') instanceof Y.Array)) {
+                entry.set('output', new Y.Array())
+            }
+            const outputs = new SharedOutputs(source, this._settings).readFull(old.get('output'))
+            this._outputs.write(entry.get('output'), outputs)
+        }
+        else if (!JSONExt.deepEqual(entry.get('attachments'), old.get('attachments'))) {
+            entry.set('attachments', old.get('attachments'))
+        }
+    }
+
+    /**
+     * Removes the checkpoints that are stored on the y-websocket server from a document, the server keeps them under the id of the room
+     * @param {Y.Doc} doc Shared Y.Doc
+     */
+    static dropServerCheckpoints(doc: Y.Doc) {
+        const history = doc.getArray('history') as Y.Array<ICheckpoint>
+        const states = doc.getMap('checkpoints')
+        doc.transact(() => {
+            for (let i = history.length - 1; i >= 0; i--) {
+                if (!states.has(history.get(i).id)) {
+                    history.delete(i, 1)
+                }
+            }
+        })
+    }
+
+    /**
+     * Returns the ids of the cells of a document in their order, only the first occurrence of a cell counts
+     * @param {Y.Doc} doc
+     * @returns {string[]}
+     */
+    private static cellOrder(doc: Y.Doc): string[] {
+        const cells = doc.getMap('cells')
+        const seen = new Set<string>()
+        return (doc.getArray('order') as Y.Array<string>).toArray().filter(id => {
+            if (seen.has(id) || !cells.has(id)) {
+                return false
+            }
+            seen.add(id)
+            return true
+        })
+    }
+}
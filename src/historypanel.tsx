@@ -0,0 +1,267 @@
+/**
+ * @author Mariën Jan
+ */
+
+import React from 'react'
+import { Dialog, DOMUtils, InputDialog, MainAreaWidget, ReactWidget, showDialog, showErrorMessage, ToolbarButton, UseSignal } from '@jupyterlab/apputils'
+import { JupyterFrontEnd } from '@jupyterlab/application'
+import { INotebookTracker, Notebook, NotebookModel, NotebookPanel } from '@jupyterlab/notebook'
+import { CodeMirrorMimeTypeService } from '@jupyterlab/codemirror'
+import { ICell } from '@jupyterlab/nbformat'
+import { ISignal, Signal } from '@lumino/signaling'
+import { RTCNotebook } from './RTCNotebook'
+import { ICheckpoint } from './history'
+
+/**
+ * Sidebar widget listing the checkpoints of the shared notebook in the current notebook panel
+ */
+export class HistoryPanel extends ReactWidget {
+    private _tracker: INotebookTracker
+    private _shell: JupyterFrontEnd.IShell
+    private _notebook: RTCNotebook | undefined
+    private _changed = new Signal<HistoryPanel, void>(this)
+
+    /**
+     *
+     * @param {INotebookTracker} tracker Tracker of the open notebooks
+     * @param {JupyterFrontEnd.IShell} shell Application shell in which previews are opened
+     */
+    constructor(tracker: INotebookTracker, shell: JupyterFrontEnd.IShell) {
+        super()
+        this._tracker = tracker
+        this._shell = shell
+        this.addClass('rtc-history-panel')
+        tracker.currentChanged.connect(this.updateNotebook, this)
+        RTCNotebook.sharingChanged.connect(this.updateNotebook, this)
+        this.updateNotebook()
+    }
+
+    /**
+     * Signal emitted when the list of checkpoints needs to be rendered again
+     */
+    get changed(): ISignal<HistoryPanel, void> {
+        return this._changed
+    }
+
+    dispose() {
+        if (this.isDisposed) {
+            return
+        }
+        Signal.clearData(this)
+        super.dispose()
+    }
+
+    render() {
+        return (
+            <UseSignal signal={this._changed}>
+                {() => (
+                    <CheckpointList
+                        notebook={this._notebook}
+                        onCreate={() => this.createCheckpoint()}
+                        onPreview={checkpoint => this.preview(checkpoint)}
+                        onRestore={checkpoint => this.restore(checkpoint)}
+                    />
+                )}
+            </UseSignal>
+        )
+    }
+
+    /**
+     * Asks for a description and stores a checkpoint of the current notebook
+     */
+    private createCheckpoint() {
+        const notebook = this._notebook
+        InputDialog.getText({ title: 'Create checkpoint', label: 'Description', text: 'Manual checkpoint' }).then(result => {
+            if (result.button.accept && RTCNotebook.find(this._tracker.currentWidget) === notebook) {
+                return notebook.createCheckpoint(result.value || 'Manual checkpoint')
+            }
+        }).catch(reason => {
+            showErrorMessage('Checkpoint failed', `The checkpoint could not be stored: ${reason}`)
+        })
+    }
+
+    /**
+     * Opens a read-only preview of a checkpoint
+     * @param {ICheckpoint} checkpoint
+     */
+    private preview(checkpoint: ICheckpoint) {
+        const panel = this._tracker.currentWidget
+        const notebook = this._notebook
+        notebook.history.cells(checkpoint).then(cells => {
+            const widget = new CheckpointPreview(panel, notebook, checkpoint, cells)
+            this._shell.add(widget, 'main', { mode: 'split-right' })
+        }).catch(reason => {
+            showErrorMessage('Preview failed', `The checkpoint could not be loaded: ${reason}`)
+        })
+    }
+
+    /**
+     * Restores the whole notebook to a checkpoint after confirmation
+     * @param {ICheckpoint} checkpoint
+     */
+    private restore(checkpoint: ICheckpoint) {
+        const notebook = this._notebook
+        confirmRestore(checkpoint).then(accepted => {
+            if (accepted && RTCNotebook.find(this._tracker.currentWidget) === notebook) {
+                return notebook.restoreCheckpoint(checkpoint)
+            }
+        }).catch(showRestoreError)
+    }
+
+    /**
+     * Follow the shared notebook of the current notebook panel
+     */
+    private updateNotebook() {
+        const panel = this._tracker.currentWidget as NotebookPanel
+        const notebook = panel ? RTCNotebook.find(panel) : undefined
+        if (notebook !== this._notebook) {
+            if (this._notebook) {
+                this._notebook.history.changed.disconnect(this.emitChanged, this)
+                this._notebook.participantsChanged.disconnect(this.emitChanged, this)
+            }
+            this._notebook = notebook
+            if (notebook) {
+                notebook.history.changed.connect(this.emitChanged, this)
+                // Roles are announced with the participants
+                notebook.participantsChanged.connect(this.emitChanged, this)
+            }
+        }
+        this.emitChanged()
+    }
+
+    private emitChanged() {
+        this._changed.emit()
+    }
+}
+
+/**
+ * Read-only view of a notebook at a checkpoint, with actions to restore the selected cell or the whole notebook
+ */
+export class CheckpointPreview extends MainAreaWidget<Notebook> {
+
+    /**
+     *
+     * @param {NotebookPanel} panel Notebookpanel hosting the shared notebook
+     * @param {RTCNotebook} notebook Shared notebook
+     * @param {ICheckpoint} checkpoint Checkpoint to show
+     * @param {ICell[]} cells Cells of the notebook at the checkpoint
+     */
+    constructor(panel: NotebookPanel, notebook: RTCNotebook, checkpoint: ICheckpoint, cells: ICell[]) {
+        const content = new Notebook({
+            rendermime: panel.content.rendermime,
+            contentFactory: panel.content.contentFactory,
+            mimeTypeService: new CodeMirrorMimeTypeService()
+        })
+        const model = new NotebookModel()
+        model.fromJSON({
+            cells: cells,
+            metadata: panel.content.model.metadata.toJSON(),
+            nbformat: 4,
+            nbformat_minor: 4
+        })
+        content.model = model
+        content.widgets.forEach(cell => {
+            cell.readOnly = true
+        })
+        super({ content: content })
+        this.id = DOMUtils.createDomID()
+        this.addClass('rtc-checkpoint-preview')
+        this.title.label = `${panel.title.label} @ ${formatTime(checkpoint.time)}`
+        this.title.caption = `${checkpoint.label} by ${checkpoint.author}`
+        this.title.closable = true
+        const canRestore = () => notebook.role !== 'viewer' && RTCNotebook.find(panel) === notebook
+        this.toolbar.addItem('rtc-restore-cell', new ToolbarButton({
+            label: 'Restore cell',
+            tooltip: 'Restore the selected cell in the shared notebook',
+            enabled: notebook.role !== 'viewer',
+            onClick: () => {
+                const cell = content.activeCell
+                if (cell && canRestore()) {
+                    notebook.restoreCheckpoint(checkpoint, cell.model.metadata.get('rtc-id') as string).catch(showRestoreError)
+                }
+            }
+        }))
+        this.toolbar.addItem('rtc-restore-notebook', new ToolbarButton({
+            label: 'Restore notebook',
+            tooltip: 'Restore all cells of the shared notebook',
+            enabled: notebook.role !== 'viewer',
+            onClick: () => {
+                confirmRestore(checkpoint).then(accepted => {
+                    if (accepted && canRestore()) {
+                        return notebook.restoreCheckpoint(checkpoint)
+                    }
+                }).catch(showRestoreError)
+            }
+        }))
+        this.disposed.connect(() => model.dispose())
+    }
+}
+
+/**
+ * List of checkpoints of a shared notebook, newest first
+ * @param {{ notebook: RTCNotebook }} props Shared notebook to display and the actions of the list
+ */
+function CheckpointList(props: { notebook: RTCNotebook | undefined, onCreate: () => void, onPreview: (checkpoint: ICheckpoint) => void, onRestore: (checkpoint: ICheckpoint) => void }) {
+    const notebook = props.notebook
+    if (!notebook) {
+        return <div className="rtc-history-empty">The current notebook is not shared.</div>
+    }
+    const editable = notebook.role !== 'viewer'
+    const checkpoints = notebook.history.checkpoints.reverse()
+    return (
+        <div>
+            <div className="rtc-history-header">
+                <span>History</span>
+                {editable && <button className="jp-mod-styled jp-mod-accept" onClick={props.onCreate}>Create checkpoint</button>}
+            </div>
+            {checkpoints.length === 0 && <div className="rtc-history-empty">No checkpoints yet.</div>}
+            <ul className="rtc-history-list">
+                {checkpoints.map(checkpoint => {
+                    const available = notebook.history.isAvailable(checkpoint)
+                    // Shown on the disabled buttons
+                    const reason = available ? '' : 'This checkpoint is stored on the y-websocket server, which did not accept your access token'
+                    return (
+                        <li key={checkpoint.id} className="rtc-history-item">
+                            <span className="rtc-history-label">{checkpoint.label}</span>
+                            <span className="rtc-history-meta">{checkpoint.author}, {formatTime(checkpoint.time)}</span>
+                            <span className="rtc-history-actions">
+                                <button className="jp-mod-styled" disabled={!available} title={reason} onClick={() => props.onPreview(checkpoint)}>Preview</button>
+                                {editable && <button className="jp-mod-styled jp-mod-warn" disabled={!available} title={reason} onClick={() => props.onRestore(checkpoint)}>Restore</button>}
+                            </span>
+                        </li>
+                    )
+                })}
+            </ul>
+        </div>
+    )
+}
+
+/**
+ * Asks for confirmation before restoring a whole notebook
+ * @param {ICheckpoint} checkpoint Checkpoint to restore
+ * @returns {Promise<boolean>}
+ */
+function confirmRestore(checkpoint: ICheckpoint): Promise<boolean> {
+    return showDialog({
+        title: 'Restore notebook',
+        body: `Restore all cells to "${checkpoint.label}" of ${formatTime(checkpoint.time)}? The restore is shared with all participants as a new change.`,
+        buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'Restore' })]
+    }).then(result => result.button.accept)
+}
+
+/**
+ * Shows why a checkpoint could not be restored
+ * @param {unknown} reason
+ */
+function showRestoreError(reason: unknown) {
+    showErrorMessage('Restore failed', `The checkpoint could not be restored: ${reason}`)
+}
+
+/**
+ * Formats the time of a checkpoint
+ * @param {number} time Milliseconds since the epoch
+ * @returns {string}
+ */
+function formatTime(time: number): string {
+    return new Date(time).toLocaleString()
+}
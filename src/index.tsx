@@ -3,22 +3,43 @@
  */
 
 import {
-  JupyterFrontEnd, JupyterFrontEndPlugin
+  IRouter, JupyterFrontEnd, JupyterFrontEndPlugin
 } from '@jupyterlab/application';
-import { LabIcon } from '@jupyterlab/ui-components'
-import { Dialog, InputDialog, showDialog, Spinner, ToolbarButton } from '@jupyterlab/apputils'
+import { v4 as uuid } from 'uuid'
+import { LabIcon, undoIcon } from '@jupyterlab/ui-components'
+import { Dialog, ICommandPalette, InputDialog, IThemeManager, showDialog, showErrorMessage, Spinner, ToolbarButton } from '@jupyterlab/apputils'
+import { PathExt } from '@jupyterlab/coreutils'
 import { ILauncher } from '@jupyterlab/launcher'
-import { RTCNotebook } from './RTCNotebook'
+import { ISharedNotebookInfo, RTCNotebook } from './RTCNotebook'
 
 
 import iconString from '../style/share.svg'
 import iconActiveString from '../style/share_active.svg'
 import pngString from '../style/share_active.png'
 import { DocumentRegistry } from '@jupyterlab/docregistry';
-import { INotebookModel, NotebookPanel} from '@jupyterlab/notebook';
+import { INotebookModel, INotebookTracker, NotebookPanel} from '@jupyterlab/notebook';
 import { DisposableDelegate, IDisposable } from '@lumino/disposable';
-import { Panel, PanelLayout } from '@lumino/widgets'
-import { IFileBrowserFactory } from '@jupyterlab/filebrowser'
+import { ReadonlyJSONObject } from '@lumino/coreutils'
+import { Widget } from '@lumino/widgets'
+import { Contents } from '@jupyterlab/services'
+import { INotebookContent, INotebookMetadata } from '@jupyterlab/nbformat'
+import { FileDialog, IFileBrowserFactory } from '@jupyterlab/filebrowser'
+import { IDocumentManager } from '@jupyterlab/docmanager'
+import { IStateDB } from '@jupyterlab/statedb'
+import { ISettingRegistry } from '@jupyterlab/settingregistry'
+import { RTCSettings } from './settings'
+import { ParticipantPanel } from './participants'
+import { HistoryPanel } from './historypanel'
+import { SharePanel } from './sharepanel'
+import { IRecentNotebook, RecentNotebooks, SharedNotebookFilter } from './recent'
+import { MemoryDrive } from './drive'
+import { placeholderRendererFactory } from './placeholder'
+import { IRenderMimeRegistry } from '@jupyterlab/rendermime'
+
+/**
+ * Key of the local storage entry holding the name of the user outside JupyterHub
+ */
+const LOCAL_USER_KEY = 'yjs_rtc:user'
 
 const icon = new LabIcon({
   name: 'rtc-icon',
@@ -32,45 +53,211 @@ const iconActive = new LabIcon({
 
 
 const plugins: JupyterFrontEndPlugin<void> = {
-  id: 'rtc',
+  id: 'yjs_rtc:plugin',
   autoStart: true,
-  requires: [IFileBrowserFactory],
-  optional: [ILauncher],
-  activate: (app: JupyterFrontEnd, filebrowser: IFileBrowserFactory, launcher: ILauncher, ) => {
+  requires: [IFileBrowserFactory, INotebookTracker, IDocumentManager],
+  optional: [ILauncher, ISettingRegistry, IThemeManager, IRenderMimeRegistry, ICommandPalette, IStateDB, IRouter],
+  activate: (app: JupyterFrontEnd, filebrowser: IFileBrowserFactory, tracker: INotebookTracker, docManager: IDocumentManager, launcher: ILauncher, settingRegistry: ISettingRegistry, themeManager: IThemeManager, rendermime: IRenderMimeRegistry, palette: ICommandPalette, state: IStateDB, router: IRouter) => {
     const command: string = 'rtc:startNotebook'
     const command2: string = 'rtc:loadNotebook'
-    app.docRegistry.addWidgetExtension('Notebook', new RTCButton(app));
+    const command3: string = 'rtc:openRecent'
+    const host = app.serviceManager.serverSettings.baseUrl.split('/')[2].split(':')[0]
+    const settings = new RTCSettings(host)
+    if (settingRegistry) {
+      settingRegistry.load(plugins.id).then(pluginSettings => {
+        settings.load(pluginSettings)
+      }).catch(reason => {
+        showErrorMessage('Settings not loaded', `The settings of the shared notebooks could not be loaded, the defaults are used: ${reason}`)
+      })
+    }
+    if (themeManager) {
+      themeManager.themeChanged.connect(() => {
+        RTCNotebook.refreshColors()
+      })
+    }
+    if (rendermime) {
+      rendermime.addFactory(placeholderRendererFactory)
+    }
+    const drive = new MemoryDrive(app.serviceManager.serverSettings)
+    app.serviceManager.contents.addDrive(drive)
+    const rtcButton = new RTCButton(app, settings)
+    app.docRegistry.addWidgetExtension('Notebook', rtcButton);
+
+    const participants = new ParticipantPanel(tracker)
+    participants.id = 'rtc-participants'
+    participants.title.icon = iconActive
+    participants.title.caption = 'Collaborators'
+    app.shell.add(participants, 'left', { rank: 700 })
+
+    const history = new HistoryPanel(tracker, app.shell)
+    history.id = 'rtc-history'
+    history.title.icon = undoIcon
+    history.title.caption = 'Notebook history'
+    app.shell.add(history, 'left', { rank: 701 })
+
+    const recent = new RecentNotebooks(state)
+    const sharedFilter = new SharedNotebookFilter(app.serviceManager.contents, state)
+    RTCNotebook.sharingChanged.connect((_, panel) => {
+      const rtcNotebook = RTCNotebook.find(panel)
+      if (!rtcNotebook) {
+        if (!isResumable(panel)) {
+          // The notebook was unshared
+          sharedFilter.remove(panel.context.path)
+        }
+        return
+      }
+      sharedFilter.add(panel.context.path)
+      recent.add(recentEntry(panel, rtcNotebook))
+      // The owner of a joined notebook is only known after the initial sync
+      const update = () => {
+        if (RTCNotebook.find(panel) !== rtcNotebook) {
+          rtcNotebook.participantsChanged.disconnect(update)
+          return
+        }
+        recent.update(recentEntry(panel, rtcNotebook))
+      }
+      rtcNotebook.participantsChanged.connect(update)
+    })
+
     app.commands.addCommand(command, {
       'label': 'Connect to notebook',
       icon: iconActive,
       execute: args => {
-        InputDialog.getText({
+        return InputDialog.getText({
           title: 'RTC',
-          label: 'Please enter the id of the notebook'
+          label: 'Please enter the id or share link of the notebook'
         }).then(result => {
+          if (!result.button.accept || !result.value) {
+            return
+          }
           const cwd = args['cwd'] as string || filebrowser.defaultBrowser.model.path as string;
-          connectToRTCNotebook(app, result.value, cwd)
+          const invitation = parseInvitation(result.value)
+          return connectToRTCNotebook(app, settings, drive, invitation.id, cwd, invitation.token)
+        }).catch(reason => {
+          showErrorMessage('Could not connect', `The shared notebook could not be joined: ${reason}`)
         })
       }
     })
-    
+
     app.commands.addCommand(command2, {
       'label': 'Open shared notebook',
       icon: iconActive,
+      execute: () => {
+        return FileDialog.getOpenFiles({
+          title: 'Open shared notebook',
+          manager: docManager,
+          filter: model => sharedFilter.filter(model)
+        }).then(result => {
+          if (!result.button.accept || !result.value) {
+            return
+          }
+          const notebooks = result.value.filter(model => model.type === 'notebook')
+          return Promise.all(notebooks.map(model => openSharedNotebook(app, rtcButton, model.path)))
+        })
+      }
+    })
+    app.commands.addCommand(command3, {
+      label: args => args['title'] as string || 'Open recent shared notebook',
+      caption: args => args['owner'] ? `Shared by ${args['owner']}, last joined ${new Date(args['joined'] as number).toLocaleString()}` : '',
+      icon: iconActive,
+      execute: args => {
+        const id = args['id'] as string
+        const path = args['path'] as string
+        const token = args['token'] as string || undefined
+        return app.serviceManager.contents.get(path, { type: 'notebook', content: true }).then(model => {
+          return model.content.metadata['rtc-id'] === id && !!model.content.metadata['rtc-doc']
+        }, () => false).then(exists => {
+          if (exists) {
+            return openSharedNotebook(app, rtcButton, path)
+          }
+          // The file was moved, deleted or unshared, join the session in a new notebook next to it
+          return connectToRTCNotebook(app, settings, drive, id, PathExt.dirname(path), token)
+        })
+      }
+    })
+
+    app.commands.addCommand('rtc:join', {
+      label: 'Join shared notebook from link',
       execute: args => {
-        app.commands.execute('docmanager:open', {
-          path: 'testfile.ipynb'
-        }).then((panel: NotebookPanel) => {
-          panel.context.ready.then(() => {
-            const host = app.serviceManager.serverSettings.baseUrl.split('/')[2].split(':')[0]
-            const user = app.serviceManager.serverSettings.baseUrl.split('/')[4]
-            const id = panel.content.model.metadata.get('rtc-id') as string
-            RTCNotebook.load(panel, id, host, user)
+        const location = args as IRouter.ILocation
+        const invitation = parseInvitation(location.search || '')
+        if (!invitation.id) {
+          return
+        }
+        if (router) {
+          // Drop the invitation from the url, so reloading the page does not join again
+          router.navigate(location.path, { skipRouting: true })
+        }
+        return app.restored.then(() => {
+          const known = recent.notebooks.find(notebook => notebook.id === invitation.id)
+          if (known) {
+            return app.commands.execute(command3, { ...known, token: invitation.token || known.token || '' } as unknown as ReadonlyJSONObject)
+          }
+          const cwd = settings.joinDirectory || filebrowser.defaultBrowser.model.path
+          return connectToRTCNotebook(app, settings, drive, invitation.id, cwd, invitation.token)
+        })
+      }
+    })
+    if (router) {
+      router.register({ command: 'rtc:join', pattern: /[?&]rtc-join=/ })
+    }
+
+    app.commands.addCommand('rtc:export-clean', {
+      label: 'Export Shared Notebook as Clean .ipynb',
+      isEnabled: () => !!tracker.currentWidget && !!RTCNotebook.find(tracker.currentWidget),
+      execute: () => {
+        const panel = tracker.currentWidget
+        const rtcNotebook = RTCNotebook.find(panel)
+        if (!rtcNotebook) {
+          return
+        }
+        const path = panel.context.path
+        const name = `${PathExt.basename(path, PathExt.extname(path))}-clean.ipynb`
+        return InputDialog.getText({
+          title: 'Export clean notebook',
+          label: 'Path',
+          text: PathExt.join(PathExt.dirname(path), name)
+        }).then(result => {
+          if (!result.button.accept || !result.value) {
+            return
+          }
+          const target = result.value
+          const contents = app.serviceManager.contents
+          return contents.get(target, { content: false }).then(() => {
+            showErrorMessage('File exists', `${target} already exists, choose another path.`)
+          }, () => {
+            return contents.save(target, { type: 'notebook', format: 'json', content: rtcNotebook.exportNotebook() }).then(() => undefined)
           })
         })
       }
     })
 
+    app.commands.addCommand('rtc:unshare', {
+      label: 'Unshare Notebook',
+      isEnabled: () => !!tracker.currentWidget && !!RTCNotebook.find(tracker.currentWidget),
+      execute: () => {
+        const panel = tracker.currentWidget
+        const rtcNotebook = RTCNotebook.find(panel)
+        if (!rtcNotebook) {
+          return
+        }
+        return showDialog({
+          title: 'Unshare notebook',
+          body: 'Disconnect from the shared notebook and remove its sharing information from this file? The other participants stay connected to each other.',
+          buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'Unshare' })]
+        }).then(result => {
+          if (result.button.accept && RTCNotebook.find(panel) === rtcNotebook) {
+            rtcNotebook.unshare()
+          }
+        })
+      }
+    })
+
+    if (palette) {
+      palette.addItem({ command: 'rtc:export-clean', category: 'Shared Notebook' })
+      palette.addItem({ command: 'rtc:unshare', category: 'Shared Notebook' })
+    }
+
     if (launcher) {
       launcher.add({
         command,
@@ -84,32 +271,213 @@ const plugins: JupyterFrontEndPlugin<void> = {
         kernelIconUrl: pngString,
         rank: 2
       })
+      let items: IDisposable[] = []
+      recent.changed.connect(() => {
+        items.forEach(item => item.dispose())
+        items = recent.notebooks.map((notebook, i) => launcher.add({
+          command: command3,
+          args: notebook as unknown as ReadonlyJSONObject,
+          category: 'Recent shared notebooks',
+          kernelIconUrl: pngString,
+          rank: i
+        }))
+      })
     }
   }
 }
 
 /**
- * Initialise a new notebook file and connect it to the shared notebook
+ * Initialise a new notebook and connect it to the shared notebook.
+ * The user chooses where to store the notebook file, named after the notebook of the owner, or keeps it in memory only.
  * @param {JupyterFrontEnd} app JupyterLab frontend
+ * @param {RTCSettings} settings Settings of the extension
+ * @param {MemoryDrive} drive Drive of the notebooks that are only kept in memory
  * @param {string} notebookID ID of the shared notebook
- * @param {string} path Local path where to store the notebook file 
+ * @param {string} directory Directory proposed for the notebook file
+ * @param {string} token Access token received from the owner
+ */
+function connectToRTCNotebook(app: JupyterFrontEnd, settings: RTCSettings, drive: MemoryDrive, notebookID: string, directory: string, token?: string): Promise<void> {
+  const user = localUser(app)
+  const connected = RTCNotebook.findPanel(notebookID)
+  if (connected) {
+    app.shell.activateById(connected.id)
+    return Promise.resolve()
+  }
+  const contents = app.serviceManager.contents
+  return RTCNotebook.fetchInfo(notebookID, settings, token).then(info => {
+    if (info.closed) {
+      showErrorMessage('Sharing stopped', 'The owner stopped sharing this notebook or changed its id, ask them for a new link.')
+      return
+    }
+    const name = info.title || 'Shared notebook.ipynb'
+    return askJoinLocation(contents, PathExt.join(directory, name)).then(target => {
+      if (target === null) {
+        return
+      }
+      const localPath = `${notebookID}/${name}`
+      const path = target || `${drive.name}:${localPath}`
+      return contents.save(path, { type: 'notebook', format: 'json', content: createJoinContent(notebookID, info, token) }).then(() => {
+        return app.commands.execute('docmanager:open', { path: path, factory: 'Notebook' })
+      }).then((panel: NotebookPanel) => {
+        if (!target) {
+          panel.disposed.connect(() => drive.delete(localPath))
+        }
+        const spinner = new Spinner()
+        panel.node.appendChild(spinner.node)
+        loadRTCNotebook(panel, notebookID, spinner, settings, user, token)
+      })
+    })
+  })
+}
+
+/**
+ * Asks where to store the notebook file of a shared notebook that is joined, existing files are never overwritten
+ * @param {Contents.IManager} contents Contents manager of the Jupyter server
+ * @param {string} suggestion Path proposed to the user, a free path next to it is proposed if it exists
+ * @returns {Promise<string | null>} The chosen path, an empty string to keep the notebook in memory or null if cancelled
+ */
+function askJoinLocation(contents: Contents.IManager, suggestion: string): Promise<string | null> {
+  return freePath(contents, suggestion).then(path => showDialog({
+    title: 'Join shared notebook',
+    body: new JoinLocationBody(path),
+    buttons: [Dialog.cancelButton(), Dialog.createButton({ label: 'Open without saving', actions: ['memory'] }), Dialog.okButton({ label: 'Save' })]
+  })).then(result => {
+    if (result.button.actions[0] === 'memory') {
+      return ''
+    }
+    if (!result.button.accept) {
+      return null
+    }
+    let target = result.value.trim()
+    if (!target) {
+      return askJoinLocation(contents, suggestion)
+    }
+    if (PathExt.extname(target) !== '.ipynb') {
+      target = `${target}.ipynb`
+    }
+    return contents.get(target, { content: false }).then(() => {
+      return showErrorMessage('File exists', `${target} already exists, choose another path.`).then(() => askJoinLocation(contents, target))
+    }, () => target)
+  })
+}
+
+/**
+ * Returns the given path, or the first path with a numbered suffix that does not exist
+ * @param {Contents.IManager} contents Contents manager of the Jupyter server
+ * @param {string} path Path of the notebook
+ * @param {number} n Number of the suffix to try
+ * @returns {Promise<string>}
+ */
+function freePath(contents: Contents.IManager, path: string, n: number = 0): Promise<string> {
+  const ext = PathExt.extname(path)
+  const candidate = n === 0 ? path : `${path.slice(0, path.length - ext.length)}-${n}${ext}`
+  return contents.get(candidate, { content: false }).then(() => freePath(contents, path, n + 1), () => candidate)
+}
+
+/**
+ * Returns the content of the notebook file of a shared notebook before it is joined.
+ * The kernelspec of the owner is used, so the notebook does not start the default kernel.
+ * @param {string} notebookID ID of the shared notebook
+ * @param {ISharedNotebookInfo} info Title and kernelspec of the shared notebook
+ * @param {string} token Access token received from the owner
+ * @returns {INotebookContent}
+ */
+function createJoinContent(notebookID: string, info: ISharedNotebookInfo, token?: string): INotebookContent {
+  const metadata: INotebookMetadata = { 'rtc-id': notebookID }
+  if (token) {
+    metadata['rtc-token'] = token
+  }
+  if (info.kernelspec) {
+    metadata.kernelspec = info.kernelspec
+  }
+  if (info.languageInfo) {
+    metadata.language_info = info.languageInfo
+  }
+  return {
+    // The empty cell is replaced by the shared cells after the initial sync
+    cells: [{ cell_type: 'code', source: '', metadata: {}, outputs: [], execution_count: null }],
+    metadata: metadata,
+    nbformat: 4,
+    nbformat_minor: 4
+  }
+}
+
+/**
+ * Body of the dialog that asks where to store a shared notebook that is joined
+ */
+class JoinLocationBody extends Widget {
+  private _input: HTMLInputElement
+
+  /**
+   *
+   * @param {string} path Path proposed to the user
+   */
+  constructor(path: string) {
+    super()
+    const label = document.createElement('label')
+    label.textContent = 'Save the notebook as'
+    this._input = document.createElement('input')
+    this._input.className = 'jp-mod-styled rtc-join-path'
+    this._input.value = path
+    const hint = document.createElement('p')
+    hint.className = 'rtc-join-hint'
+    hint.textContent = 'Open without saving keeps the notebook in memory only, use "Save Notebook As" to store it later.'
+    this.node.appendChild(label)
+    this.node.appendChild(this._input)
+    this.node.appendChild(hint)
+  }
+
+  /**
+   * Returns the path entered by the user
+   * @returns {string}
+   */
+  getValue(): string {
+    return this._input.value
+  }
+}
+
+/**
+ * Opens a notebook file and reconnects it to its shared notebook
+ * @param {JupyterFrontEnd} app JupyterLab frontend
+ * @param {RTCButton} button Widget extension that reconnects shared notebooks when they are opened
+ * @param {string} path Path of the notebook file
  */
-function connectToRTCNotebook(app: JupyterFrontEnd, notebookID: string, path: string) {
-  const host = app.serviceManager.serverSettings.baseUrl.split('/')[2].split(':')[0]
-  const user = app.serviceManager.serverSettings.baseUrl.split('/')[4]
-  app.commands.execute('notebook:create-new', {
-    cwd: path,
-    kernelName: 'python3'
+function openSharedNotebook(app: JupyterFrontEnd, button: RTCButton, path: string): Promise<void> {
+  button.requestResume(path)
+  return app.commands.execute('docmanager:open', {
+    path: path
   }).then((panel: NotebookPanel) => {
-    const spinner = new Spinner()
-    panel.node.appendChild(spinner.node)
-    panel.context.ready.then(() => {
-      panel.content.model.metadata.set('rtc-id', notebookID)
-      panel.context.save()
+    return panel.context.ready.then(() => {
+      button.cancelResume(path)
+      if (!isResumable(panel)) {
+        showErrorMessage('Not a shared notebook', `${path} has not been shared, use the share button in its toolbar instead.`)
+        return
+      }
+      // Reconnects the notebook if it was open already, otherwise the button is reconnecting it
+      return button.resume(panel).then(() => undefined)
     })
-    loadRTCNotebook(panel, notebookID, spinner, host, user)
   })
+}
 
+/**
+ * Returns the entry of a shared notebook in the list of recent shared notebooks
+ * @param {NotebookPanel} panel Notebookpanel hosting the notebook
+ * @param {RTCNotebook} rtcNotebook Shared notebook
+ * @returns {IRecentNotebook}
+ */
+function recentEntry(panel: NotebookPanel, rtcNotebook: RTCNotebook): IRecentNotebook {
+  const metadata = panel.content.model.metadata
+  const entry: IRecentNotebook = {
+    id: rtcNotebook.notebookID,
+    path: panel.context.path,
+    title: rtcNotebook.title || PathExt.basename(panel.context.path),
+    owner: rtcNotebook.owner,
+    joined: Date.now()
+  }
+  if (metadata.get('rtc-token')) {
+    entry.token = metadata.get('rtc-token') as string
+  }
+  return entry
 }
 
 /**
@@ -117,93 +485,179 @@ function connectToRTCNotebook(app: JupyterFrontEnd, notebookID: string, path: st
  * @param {NotebookPanel} panel 
  * @param {string} rtcID 
  * @param {Spinner} spinner 
- * @param {string} host 
+ * @param {RTCSettings} settings 
  * @param {string} user 
+ * @param {string} token 
  */
-function loadRTCNotebook(panel: NotebookPanel, rtcID: string, spinner: Spinner, host: string, user: string) {
-  RTCNotebook.connect(panel, rtcID, host, user)
+function loadRTCNotebook(panel: NotebookPanel, rtcID: string, spinner: Spinner, settings: RTCSettings, user: string, token?: string) {
+  RTCNotebook.connect(panel, rtcID, settings, user, token)
   spinner.hide()
   spinner.dispose()
 
 }
 
+/**
+ * Extract the notebook id and access token from a share link or a bare id
+ * @param {string} value Share link or id entered by the user
+ * @returns {{ id: string, token: string }}
+ */
+function parseInvitation(value: string): { id: string, token: string } {
+  const text = value.trim()
+  if (text.indexOf('rtc-join=') === -1) {
+    return { id: text, token: undefined }
+  }
+  const params = new URLSearchParams(text.slice(text.indexOf('?') + 1))
+  return { id: params.get('rtc-join'), token: params.get('rtc-token') || undefined }
+}
+
 /**
  * Class representing the button used to shared a notebook
  */
 class RTCButton implements DocumentRegistry.IWidgetExtension<NotebookPanel, INotebookModel> {
-  _hubHost: string
+  _settings: RTCSettings
+  _baseUrl: string
   _hubUser: string
-  constructor(app: JupyterFrontEnd) {
-    this._hubHost = app.serviceManager.serverSettings.baseUrl.split('/')[2].split(':')[0]
+  _user: string
+  _resumeRequests = new Set<string>()
+  constructor(app: JupyterFrontEnd, settings: RTCSettings) {
+    this._settings = settings
+    this._baseUrl = app.serviceManager.serverSettings.baseUrl
     this._hubUser = app.serviceManager.serverSettings.baseUrl.split('/')[4]
+    this._user = localUser(app)
   }
 
 
   /**
-   * Creates a new button and inserts it into the Notebookpanel's toolbar
+   * Creates a new button and inserts it into the Notebookpanel's toolbar.
+   * A notebook that was shared before is reconnected once it is loaded, depending on the resumeSharing setting.
    * @param {NotebookPanel} panel Panel hosting the notebook
-   * @param {DocumentRegistry.IContext<INotebookModel>} _context Ignored
+   * @param {DocumentRegistry.IContext<INotebookModel>} context Context of the notebook
    * @returns {IDisposable}
    */
-  createNew(panel: NotebookPanel, _context: DocumentRegistry.IContext<INotebookModel>): IDisposable {
+  createNew(panel: NotebookPanel, context: DocumentRegistry.IContext<INotebookModel>): IDisposable {
     let callBack = () => {
-      showRTCDialog(panel, this._hubHost, this._hubUser)
+      if (!RTCNotebook.find(panel) && isResumable(panel)) {
+        this.resume(panel)
+        return
+      }
+      showRTCDialog(panel, this._settings, this._baseUrl, this._hubUser, this._user)
     }
     let button = new ToolbarButton({
       className: 'rtcButton',
       icon: icon,
+      pressedIcon: iconActive,
       onClick: callBack,
-      tooltip: 'Share notebook'
+      tooltip: 'Share notebook',
+      pressedTooltip: 'Shared notebook'
     })
     panel.toolbar.insertItem(0, "RTC", button)
+    const updateButton = (_: typeof RTCNotebook, changed: NotebookPanel) => {
+      if (changed === panel) {
+        button.pressed = !!RTCNotebook.find(panel)
+      }
+    }
+    RTCNotebook.sharingChanged.connect(updateButton)
+    context.ready.then(() => {
+      const requested = this._resumeRequests.delete(context.path)
+      if (panel.isDisposed || RTCNotebook.find(panel) || !isResumable(panel)) {
+        return
+      }
+      if (requested || this._settings.resumeSharing === 'always') {
+        this.resume(panel)
+      }
+      else if (this._settings.resumeSharing === 'ask') {
+        showDialog({
+          title: 'Shared notebook',
+          body: `${PathExt.basename(context.path)} was shared. Reconnect it to the shared notebook?`,
+          buttons: [Dialog.cancelButton({ label: 'Open offline' }), Dialog.okButton({ label: 'Reconnect' })]
+        }).then(result => {
+          if (result.button.accept && !panel.isDisposed) {
+            this.resume(panel)
+          }
+        })
+      }
+    })
     return new DisposableDelegate(() => {
+      RTCNotebook.sharingChanged.disconnect(updateButton)
       button.dispose()
     })
   }
+
+  /**
+   * Reconnects the notebook at the given path without asking when it is opened next, regardless of the resumeSharing setting
+   * @param {string} path Path of the notebook file
+   */
+  requestResume(path: string) {
+    this._resumeRequests.add(path)
+  }
+
+  /**
+   * Stops waiting for a notebook to be opened, e.g. because it was open already
+   * @param {string} path Path of the notebook file
+   */
+  cancelResume(path: string) {
+    this._resumeRequests.delete(path)
+  }
+
+  /**
+   * Reconnects a notebook to the shared notebook stored in it
+   * @param {NotebookPanel} panel Panel hosting the notebook
+   * @returns {Promise<RTCNotebook | null>}
+   */
+  resume(panel: NotebookPanel): Promise<RTCNotebook | null> {
+    const id = panel.content.model.metadata.get('rtc-id') as string
+    return RTCNotebook.load(panel, id, this._settings, this._user)
+  }
+}
+
+/**
+ * Returns the name of the local user: the JupyterHub username, or outside JupyterHub a name generated once for this browser,
+ * so the creator of a shared notebook is recognised as its owner
+ * @param {JupyterFrontEnd} app
+ * @returns {string}
+ */
+function localUser(app: JupyterFrontEnd): string {
+  const hubUser = app.serviceManager.serverSettings.baseUrl.split('/')[4]
+  if (hubUser) {
+    return hubUser
+  }
+  let user = window.localStorage.getItem(LOCAL_USER_KEY)
+  if (!user) {
+    user = `user-${uuid().slice(0, 8)}`
+    window.localStorage.setItem(LOCAL_USER_KEY, user)
+  }
+  return user
+}
+
+/**
+ * Returns whether a notebook contains a shared notebook it can be reconnected to
+ * @param {NotebookPanel} panel Panel hosting the notebook
+ * @returns {boolean}
+ */
+function isResumable(panel: NotebookPanel): boolean {
+  const metadata = panel.content.model.metadata
+  return !!metadata.get('rtc-id') && !!metadata.get('rtc-doc')
 }
 
 
 /**
- * Intialises a shared notebook and displays a dialog which contains the shared id
+ * Intialises a shared notebook if needed and displays the share panel
  * @param {NotebookPanel} panel Notebookpanel hosting the notebook
- * @param {string} hubHost JupyterHub host
- * @param {string} hubUser JupyterHub username
+ * @param {RTCSettings} settings Settings of the extension
+ * @param {string} baseUrl Base url of the Jupyter server
+ * @param {string} hubUser JupyterHub username, empty outside JupyterHub
+ * @param {string} user Name of the local user
  */
-function showRTCDialog(panel: NotebookPanel, hubHost: string, hubUser: string) {
+function showRTCDialog(panel: NotebookPanel, settings: RTCSettings, baseUrl: string, hubUser: string, user: string) {
   // Check whether the notebook already has a shared id
-  var rtcID = panel.content.model.metadata.get('rtc-id') as string
-  if (rtcID === undefined) {
-    const rtcNotebook = RTCNotebook.createNew(panel, hubHost, hubUser)
-    rtcID = rtcNotebook.notebookID
-  }
-  
-  const body = new Panel()
-  const spinner = new Spinner()
-  const layout = new PanelLayout()
-  layout.addWidget(body)
-  const br1 = document.createElement('br')
-  body.node.appendChild(br1)
-  body.node.appendChild(spinner.node)
-  body.node.appendChild(document.createElement('br'))
-
+  if (!RTCNotebook.find(panel) && panel.content.model.metadata.get('rtc-id') === undefined) {
+    RTCNotebook.createNew(panel, settings, user)
+  }
   showDialog({
-    title: 'RTC ID',
-    body: body,
-    buttons: [Dialog.okButton()]
+    title: 'Share notebook',
+    body: new SharePanel(panel, settings, baseUrl, hubUser, user),
+    buttons: [Dialog.okButton({ label: 'Close' })]
   })
-
-  
-  spinner.hide()
-  const text = document.createElement('p')
-  text.append('Use the following id to share this notebook with your fellow collaborators.')
-  const idText = document.createElement('b')
-  idText.style.setProperty('text-align', 'center')
-  idText.append(`${rtcID}`)
-  body.node.removeChild(br1)
-  body.node.appendChild(text)
-  body.node.appendChild(document.createElement('br'))
-  body.node.append(idText)
-
 }
 
 export default plugins;
\ No newline at end of file
@@ -0,0 +1,121 @@
+/**
+ * @author Mariën Jan
+ */
+
+import * as Y from 'yjs'
+import { IObservableJSON, IObservableMap } from '@jupyterlab/observables'
+import { JSONExt, ReadonlyPartialJSONValue } from '@lumino/coreutils'
+
+/**
+ * Metadata keys of a cell that are only used locally
+ */
+export const CELL_METADATA_EXCLUDED = ['rtc-id', 'xCount']
+
+/**
+ * MetadataBinding class. Keeps the metadata of a notebook or cell model and a shared Y.Map in sync in both directions.
+ * The content of the Y.Map takes precedence when the binding is created.
+ */
+export class MetadataBinding {
+    private _map: Y.Map<any>
+    private _metadata: IObservableJSON
+    private _excluded: Set<string>
+    private _readOnly: boolean = false
+    private _applying: boolean = false
+    private _observer: (e: Y.YMapEvent<any>, t: Y.Transaction) => void
+
+    /**
+     *
+     * @param {Y.Map<any>} map Shared metadata
+     * @param {IObservableJSON} metadata Metadata of the local model
+     * @param {string[]} excluded Keys that are only used locally and never shared
+     */
+    constructor(map: Y.Map<any>, metadata: IObservableJSON, excluded: string[]) {
+        this._map = map
+        this._metadata = metadata
+        this._excluded = new Set(excluded)
+        this._observer = (e, t) => {
+            if (t.origin !== this) {
+                this.applyRemote(Array.from(e.keysChanged))
+            }
+        }
+        this._map.observe(this._observer)
+        this._metadata.changed.connect(this.handleLocalChange, this)
+        this.applyRemote(this._metadata.keys().concat(Array.from(this._map.keys())))
+    }
+
+    /**
+     * Copies the shareable entries of the given metadata into a Y.Map
+     * @param {Y.Map<any>} map Shared metadata
+     * @param {IObservableJSON} metadata Metadata of the local model
+     * @param {string[]} excluded Keys that are only used locally and never shared
+     * @returns {Y.Map<any>} The given Y.Map
+     */
+    static fill(map: Y.Map<any>, metadata: IObservableJSON, excluded: string[]): Y.Map<any> {
+        metadata.keys().forEach(key => {
+            if (excluded.indexOf(key) === -1) {
+                map.set(key, JSONExt.deepCopy(metadata.get(key)))
+            }
+        })
+        return map
+    }
+
+    /**
+     * Local changes of a read-only binding are reverted instead of shared
+     */
+    set readOnly(value: boolean) {
+        this._readOnly = value
+    }
+
+    /**
+     * Stop synchronising
+     */
+    destroy() {
+        this._map.unobserve(this._observer)
+        this._metadata.changed.disconnect(this.handleLocalChange, this)
+    }
+
+    /**
+     * Shares a change of the local metadata
+     * @param {IObservableJSON} _sender
+     * @param {IObservableMap.IChangedArgs<ReadonlyPartialJSONValue>} args
+     */
+    private handleLocalChange(_sender: IObservableJSON, args: IObservableMap.IChangedArgs<ReadonlyPartialJSONValue>) {
+        if (this._applying || this._excluded.has(args.key)) {
+            return
+        }
+        if (this._readOnly) {
+            setTimeout(() => this.applyRemote([args.key]))
+            return
+        }
+        this._map.doc.transact(() => {
+            if (args.type === 'remove') {
+                this._map.delete(args.key)
+            }
+            else if (!JSONExt.deepEqual(this._map.get(args.key), args.newValue)) {
+                this._map.set(args.key, JSONExt.deepCopy(args.newValue))
+            }
+        }, this)
+    }
+
+    /**
+     * Copies the given keys of the Y.Map to the local metadata
+     * @param {string[]} keys Keys to update
+     */
+    private applyRemote(keys: string[]) {
+        this._applying = true
+        keys.forEach(key => {
+            if (this._excluded.has(key)) {
+                return
+            }
+            if (!this._map.has(key)) {
+                if (this._metadata.has(key)) {
+                    this._metadata.delete(key)
+                }
+            }
+            else if (!JSONExt.deepEqual(this._metadata.get(key), this._map.get(key))) {
+                this._metadata.set(key, JSONExt.deepCopy(this._map.get(key)))
+            }
+        })
+        this._applying = false
+    }
+}
@@ -0,0 +1,234 @@
+/**
+ * @author Mariën Jan
+ */
+
+import * as Y from 'yjs'
+import { v4 as uuid } from 'uuid'
+import { IDisplayData, IOutput, IStream } from '@jupyterlab/nbformat'
+import { IOutputAreaModel } from '@jupyterlab/outputarea'
+import { JSONExt, PartialJSONObject } from '@lumino/coreutils'
+import { RTCSettings } from './settings'
+
+/**
+ * Mime type of the placeholder that replaces outputs exceeding the size limit
+ */
+export const PLACEHOLDER_MIME = 'application/vnd.yjs-rtc.placeholder+json'
+
+/**
+ * Data of a placeholder output
+ */
+export interface IPlaceholder extends PartialJSONObject {
+    id: string
+    size: number
+}
+
+/**
+ * SharedOutputs class. Converts the outputs of code cells to and from the shared document.
+ * Every output is a Y.Map in the output array of a cell: streams keep their text in a Y.Text so new text is appended,
+ * outputs exceeding the size limit are stored in a separate map and replaced by a placeholder.
+ * Streams exceeding the size limit keep their text, but are also shown as a placeholder until they are loaded.
+ */
+export class SharedOutputs {
+    private _data: Y.Map<IOutput>
+    private _settings: RTCSettings
+
+    /**
+     *
+     * @param {Y.Doc} doc Shared Y.Doc
+     * @param {RTCSettings} settings Settings of the extension
+     */
+    constructor(doc: Y.Doc, settings: RTCSettings) {
+        this._data = doc.getMap('outputData')
+        this._settings = settings
+    }
+
+    /**
+     * Brings the shared outputs of a cell in line with the given outputs. Only the entries that differ are replaced,
+     * then the entries beyond the given outputs are removed or the new outputs are appended.
+     * Should be called within a transaction.
+     * @param {Y.Array<Y.Map<any>>} shared Shared outputs of the cell
+     * @param {IOutput[]} outputs Outputs of the local output area
+     */
+    write(shared: Y.Array<Y.Map<any>>, outputs: IOutput[]) {
+        for (let index = 0; index < Math.min(shared.length, outputs.length); index++) {
+            const entry = shared.get(index)
+            const output = outputs[index]
+            if (JSONExt.deepEqual(this.full(entry), output) || (entry.has('large') && SharedOutputs.placeholderID(output) === entry.get('large'))) {
+                // Unchanged, or the placeholder of this large output that was never loaded
+                continue
+            }
+            if (entry.has('text') && output.output_type === 'stream' && output.name === entry.get('output').name) {
+                // Append the new text of a stream
+                const text = entry.get('text') as Y.Text
+                const current = text.toString()
+                const next = SharedOutputs.streamText(output as IStream)
+                if (next.startsWith(current)) {
+                    text.insert(current.length, next.slice(current.length))
+                    this.limitStream(entry)
+                    continue
+                }
+            }
+            this.deleteData(entry)
+            shared.delete(index, 1)
+            shared.insert(index, [this.createEntry(output)])
+        }
+        if (shared.length > outputs.length) {
+            shared.slice(outputs.length).forEach(entry => this.deleteData(entry))
+            shared.delete(outputs.length, shared.length - outputs.length)
+        }
+        if (shared.length < outputs.length) {
+            shared.push(outputs.slice(shared.length).map(output => this.createEntry(output)))
+        }
+    }
+
+    /**
+     * Returns the outputs of a cell as they should be displayed
+     * @param {any} shared Shared outputs of the cell, documents created by older versions store a plain array
+     * @param {Set<string> | null} loaded Ids of the placeholders for which the full output was requested, null to load all outputs
+     * @returns {IOutput[]}
+     */
+    read(shared: any, loaded: Set<string> | null): IOutput[] {
+        if (shared instanceof Y.Array) {
+            return shared.map((entry: Y.Map<any>) => {
+                if (entry.has('large') && loaded && !loaded.has(entry.get('large'))) {
+                    if (entry.has('text')) {
+                        return SharedOutputs.placeholder(entry.get('large'), (entry.get('text') as Y.Text).length)
+                    }
+                    return entry.get('output') as IOutput
+                }
+                return this.full(entry)
+            })
+        }
+        return Array.isArray(shared) ? shared : []
+    }
+
+    /**
+     * Returns the outputs of a cell with the full content of the outputs that exceed the size limit
+     * @param {any} shared Shared outputs of the cell
+     * @returns {IOutput[]}
+     */
+    readFull(shared: any): IOutput[] {
+        return this.read(shared, null)
+    }
+
+    /**
+     * Shows the given outputs in an output area, only the outputs that differ are replaced
+     * @param {IOutputAreaModel} model Model of the output area
+     * @param {IOutput[]} outputs Outputs to show
+     */
+    apply(model: IOutputAreaModel, outputs: IOutput[]) {
+        if (model.length > outputs.length) {
+            model.clear()
+        }
+        outputs.forEach((output, index) => {
+            if (index >= model.length) {
+                model.add(output)
+            }
+            else if (!JSONExt.deepEqual(model.get(index).toJSON(), output)) {
+                model.set(index, output)
+            }
+        })
+    }
+
+    /**
+     * Creates the shared entry of an output
+     * @param {IOutput} output
+     * @returns {Y.Map<any>}
+     */
+    private createEntry(output: IOutput): Y.Map<any> {
+        const entry = new Y.Map<any>()
+        if (output.output_type === 'stream') {
+            const text = new Y.Text()
+            text.insert(0, SharedOutputs.streamText(output as IStream))
+            entry.set('output', { output_type: 'stream', name: output.name })
+            entry.set('text', text)
+            this.limitStream(entry)
+            return entry
+        }
+        const size = JSON.stringify(output).length
+        const limit = this._settings.outputSizeLimit * 1024
+        if (limit > 0 && size > limit) {
+            const id = uuid().toString()
+            this._data.set(id, output)
+            entry.set('output', SharedOutputs.placeholder(id, size))
+            entry.set('large', id)
+            return entry
+        }
+        entry.set('output', output)
+        return entry
+    }
+
+    /**
+     * Removes the full output of an entry that exceeds the size limit
+     * @param {Y.Map<any>} entry Shared entry that is deleted
+     */
+    private deleteData(entry: Y.Map<any>) {
+        if (entry.has('large')) {
+            this._data.delete(entry.get('large'))
+        }
+    }
+
+    /**
+     * Marks a stream whose text exceeds the size limit, so it is shown as a placeholder.
+     * The text stays in the entry, new text is still appended to it.
+     * @param {Y.Map<any>} entry Shared entry of a stream
+     */
+    private limitStream(entry: Y.Map<any>) {
+        const limit = this._settings.outputSizeLimit * 1024
+        if (limit > 0 && !entry.has('large') && (entry.get('text') as Y.Text).length > limit) {
+            entry.set('large', uuid().toString())
+        }
+    }
+
+    /**
+     * Returns the complete output of a shared entry
+     * @param {Y.Map<any>} entry
+     * @returns {IOutput}
+     */
+    private full(entry: Y.Map<any>): IOutput {
+        if (entry.has('text')) {
+            return { ...entry.get('output'), text: entry.get('text').toString() }
+        }
+        if (entry.has('large')) {
+            return this._data.get(entry.get('large'))
+        }
+        return entry.get('output')
+    }
+
+    /**
+     * Creates the output shown instead of an output that exceeds the size limit
+     * @param {string} id ID of the full output
+     * @param {number} size Size of the full output in bytes
+     * @returns {IOutput}
+     */
+    private static placeholder(id: string, size: number): IOutput {
+        const data: IPlaceholder = { id: id, size: size }
+        return {
+            output_type: 'display_data',
+            data: {
+                [PLACEHOLDER_MIME]: data,
+                'text/plain': `Output of ${Math.round(size / 1024)} KB not loaded`
+            },
+            metadata: {}
+        }
+    }
+
+    /**
+     * Returns the ID of the large output if the given output is a placeholder
+     * @param {IOutput} output
+     * @returns {string | undefined}
+     */
+    private static placeholderID(output: IOutput): string | undefined {
+        const data = output.output_type === 'display_data' ? (output as IDisplayData).data : undefined
+        return data && data[PLACEHOLDER_MIME] ? (data[PLACEHOLDER_MIME] as IPlaceholder).id : undefined
+    }
+
+    /**
+     * Returns the text of a stream output
+     * @param {IStream} output
+     * @returns {string}
+     */
+    private static streamText(output: IStream): string {
+        return Array.isArray(output.text) ? output.text.join('') : output.text
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * @author Mariën Jan
+ */
+
+import React from 'react'
+import { ReactWidget, UseSignal } from '@jupyterlab/apputils'
+import { INotebookTracker, NotebookPanel } from '@jupyterlab/notebook'
+import { ISignal, Signal } from '@lumino/signaling'
+import { IParticipant, RTCNotebook } from './RTCNotebook'
+
+/**
+ * Sidebar widget listing the users connected to the shared notebook in the current notebook panel
+ */
+export class ParticipantPanel extends ReactWidget {
+    private _tracker: INotebookTracker
+    private _notebook: RTCNotebook | undefined
+    private _changed = new Signal<ParticipantPanel, void>(this)
+
+    /**
+     *
+     * @param {INotebookTracker} tracker Tracker of the open notebooks
+     */
+    constructor(tracker: INotebookTracker) {
+        super()
+        this._tracker = tracker
+        this.addClass('rtc-participant-panel')
+        tracker.currentChanged.connect(this.updateNotebook, this)
+        RTCNotebook.sharingChanged.connect(this.updateNotebook, this)
+        this.updateNotebook()
+    }
+
+    /**
+     * Signal emitted when the list of participants needs to be rendered again
+     */
+    get changed(): ISignal<ParticipantPanel, void> {
+        return this._changed
+    }
+
+    dispose() {
+        if (this.isDisposed) {
+            return
+        }
+        Signal.clearData(this)
+        super.dispose()
+    }
+
+    render() {
+        return (
+            <UseSignal signal={this._changed}>
+                {() => <ParticipantList notebook={this._notebook} />}
+            </UseSignal>
+        )
+    }
+
+    /**
+     * Follow the shared notebook of the current notebook panel
+     */
+    private updateNotebook() {
+        const panel = this._tracker.currentWidget as NotebookPanel
+        const notebook = panel ? RTCNotebook.find(panel) : undefined
+        if (notebook !== this._notebook) {
+            if (this._notebook) {
+                this._notebook.participantsChanged.disconnect(this.emitChanged, this)
+            }
+            this._notebook = notebook
+            if (notebook) {
+                notebook.participantsChanged.connect(this.emitChanged, this)
+            }
+        }
+        this.emitChanged()
+    }
+
+    private emitChanged() {
+        this._changed.emit()
+    }
+}
+
+/**
+ * List of participants of a shared notebook
+ * @param {{ notebook: RTCNotebook }} props Shared notebook to display
+ */
+function ParticipantList(props: { notebook: RTCNotebook | undefined }) {
+    const notebook = props.notebook
+    if (!notebook) {
+        return <div className="rtc-participant-empty">The current notebook is not shared.</div>
+    }
+    const host = notebook.hostClientID
+    return (
+        <div>
+            <div className="rtc-participant-header">Collaborators</div>
+            <ul className="rtc-participant-list">
+                {notebook.participants.map(participant => (
+                    <ParticipantItem
+                        key={participant.clientID}
+                        participant={participant}
+                        isLocal={participant.clientID === notebook.clientID}
+                        isHost={participant.clientID === host}
+                        onJump={() => notebook.jumpTo(participant.cell)}
+                    />
+                ))}
+            </ul>
+        </div>
+    )
+}
+
+/**
+ * Single participant with its color, focused cell and host indicator
+ */
+function ParticipantItem(props: { participant: IParticipant, isLocal: boolean, isHost: boolean, onJump: () => void }) {
+    const participant = props.participant
+    const location = participant.cellIndex === -1 ? 'No cell selected' : `Cell ${participant.cellIndex + 1}`
+    return (
+        <li
+            className="rtc-participant-item"
+            title={props.isLocal ? 'This is you' : `Jump to the cell of ${participant.name}`}
+            onClick={props.isLocal ? undefined : props.onJump}
+        >
+            <span className="rtc-participant-color" style={{ backgroundColor: participant.color }} />
+            <span className="rtc-participant-name">
+                {participant.name}
+                {props.isLocal ? ' (you)' : ''}
+            </span>
+            {props.isHost && <span className="rtc-participant-tag">host</span>}
+            {participant.role === 'viewer' && <span className="rtc-participant-tag">viewer</span>}
+            <span className="rtc-participant-cell">{location}</span>
+        </li>
+    )
+}
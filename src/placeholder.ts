@@ -0,0 +1,52 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { IRenderMime } from '@jupyterlab/rendermime'
+import { Widget } from '@lumino/widgets'
+import { IPlaceholder, PLACEHOLDER_MIME } from './outputs'
+
+/**
+ * Event dispatched on the placeholder when the user requests the full output
+ */
+export const LOAD_OUTPUT_EVENT = 'rtc-load-output'
+
+/**
+ * OutputPlaceholder class. Renders a placeholder of an output that exceeds the size limit, with a button to load it.
+ */
+export class OutputPlaceholder extends Widget implements IRenderMime.IRenderer {
+
+    constructor() {
+        super()
+        this.addClass('rtc-output-placeholder')
+    }
+
+    /**
+     * Render the placeholder
+     * @param {IRenderMime.IMimeModel} model Mime model containing the placeholder data
+     */
+    renderModel(model: IRenderMime.IMimeModel): Promise<void> {
+        const data = model.data[PLACEHOLDER_MIME] as unknown as IPlaceholder
+        this.node.textContent = ''
+        const label = document.createElement('span')
+        label.textContent = `Output of ${Math.round(data.size / 1024)} KB not loaded`
+        const button = document.createElement('button')
+        button.className = 'jp-mod-styled jp-mod-accept'
+        button.textContent = 'Load full output'
+        button.onclick = () => {
+            this.node.dispatchEvent(new CustomEvent(LOAD_OUTPUT_EVENT, { bubbles: true, detail: data.id }))
+        }
+        this.node.appendChild(label)
+        this.node.appendChild(button)
+        return Promise.resolve()
+    }
+}
+
+/**
+ * Renderer factory of output placeholders
+ */
+export const placeholderRendererFactory: IRenderMime.IRendererFactory = {
+    safe: true,
+    mimeTypes: [PLACEHOLDER_MIME],
+    createRenderer: () => new OutputPlaceholder()
+}
@@ -0,0 +1,74 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { Notebook } from '@jupyterlab/notebook'
+import { IParticipant } from './RTCNotebook'
+
+const PRESENCE_CLASS = 'rtc-presence'
+const PRESENCE_CELL_CLASS = 'rtc-presence-cell'
+
+/**
+ * PresenceIndicator class. Renders a colored chip on the prompt area of each cell for every collaborator that selected it.
+ */
+export class PresenceIndicator {
+    private _notebook: Notebook
+
+    /**
+     *
+     * @param {Notebook} notebook Notebook in which to render the chips
+     */
+    constructor(notebook: Notebook) {
+        this._notebook = notebook
+    }
+
+    /**
+     * Renders the chips of the given participants
+     * @param {IParticipant[]} participants Connected users
+     * @param {number} localClientID Awareness id of the local client, which gets no chip
+     */
+    update(participants: IParticipant[], localClientID: number) {
+        this.clear()
+        const byCell = new Map<string, IParticipant[]>()
+        participants.forEach(participant => {
+            if (participant.clientID === localClientID || !participant.cell) {
+                return
+            }
+            if (!byCell.has(participant.cell)) {
+                byCell.set(participant.cell, [])
+            }
+            byCell.get(participant.cell).push(participant)
+        })
+        this._notebook.widgets.forEach(cell => {
+            const here = byCell.get(cell.model.metadata.get('rtc-id') as string)
+            if (!here) {
+                return
+            }
+            const container = document.createElement('div')
+            container.className = PRESENCE_CLASS
+            here.forEach(participant => {
+                const chip = document.createElement('span')
+                chip.className = participant.editing ? 'rtc-presence-chip rtc-mod-editing' : 'rtc-presence-chip'
+                chip.style.setProperty('background-color', participant.color)
+                chip.textContent = participant.name ? participant.name.charAt(0).toUpperCase() : '?'
+                chip.title = participant.editing ? `${participant.name} is editing this cell` : `${participant.name} selected this cell`
+                container.appendChild(chip)
+            })
+            cell.addClass(PRESENCE_CELL_CLASS)
+            cell.node.appendChild(container)
+        })
+    }
+
+    /**
+     * Removes all chips
+     */
+    clear() {
+        this._notebook.widgets.forEach(cell => {
+            cell.removeClass(PRESENCE_CELL_CLASS)
+            const container = cell.node.querySelector(`:scope > .${PRESENCE_CLASS}`)
+            if (container) {
+                container.remove()
+            }
+        })
+    }
+}
@@ -0,0 +1,220 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { IStateDB } from '@jupyterlab/statedb'
+import { Contents } from '@jupyterlab/services'
+import { ReadonlyPartialJSONValue } from '@lumino/coreutils'
+import { ISignal, Signal } from '@lumino/signaling'
+
+/**
+ * Shared notebook the user joined before
+ */
+export interface IRecentNotebook {
+    id: string
+    path: string
+    title: string
+    owner: string
+    joined: number
+    token?: string
+}
+
+/**
+ * RecentNotebooks class. Remembers the shared notebooks the user joined in the state database.
+ */
+export class RecentNotebooks {
+    private _state: IStateDB | null
+    private _notebooks: IRecentNotebook[] = []
+    private _changed = new Signal<RecentNotebooks, void>(this)
+    private _ready: Promise<void>
+
+    /**
+     * Key under which the list is stored
+     */
+    private static key = 'yjs_rtc:recent'
+
+    /**
+     * Maximum number of notebooks that are remembered
+     */
+    static limit = 10
+
+    /**
+     *
+     * @param {IStateDB | null} state State database of JupyterLab, the list is only kept in memory without it
+     */
+    constructor(state: IStateDB | null) {
+        this._state = state
+        this._ready = state ? state.fetch(RecentNotebooks.key).then(value => {
+            if (Array.isArray(value)) {
+                this._notebooks = value as unknown as IRecentNotebook[]
+                this._changed.emit()
+            }
+        }, () => {
+            // The list starts empty
+        }) : Promise.resolve()
+    }
+
+    /**
+     * Signal emitted when the list changes
+     */
+    get changed(): ISignal<RecentNotebooks, void> {
+        return this._changed
+    }
+
+    /**
+     * Returns the notebooks, most recently joined first
+     */
+    get notebooks(): IRecentNotebook[] {
+        return this._notebooks.slice()
+    }
+
+    /**
+     * Remembers that the user joined a shared notebook
+     * @param {IRecentNotebook} notebook
+     */
+    add(notebook: IRecentNotebook) {
+        this._ready.then(() => {
+            this._notebooks = [notebook].concat(this._notebooks.filter(n => n.id !== notebook.id)).slice(0, RecentNotebooks.limit)
+            this.save()
+        })
+    }
+
+    /**
+     * Updates the path, title, owner or token of a remembered notebook without changing the time it was joined
+     * @param {IRecentNotebook} notebook
+     */
+    update(notebook: IRecentNotebook) {
+        this._ready.then(() => {
+            const index = this._notebooks.findIndex(n => n.id === notebook.id)
+            const old = this._notebooks[index]
+            if (!old || (old.path === notebook.path && old.title === notebook.title && old.owner === notebook.owner && old.token === notebook.token)) {
+                return
+            }
+            this._notebooks[index] = { ...notebook, joined: old.joined }
+            this.save()
+        })
+    }
+
+    /**
+     * Forgets a shared notebook
+     * @param {string} id ID of the shared notebook
+     */
+    remove(id: string) {
+        this._ready.then(() => {
+            this._notebooks = this._notebooks.filter(n => n.id !== id)
+            this.save()
+        })
+    }
+
+    /**
+     * Stores the list in the state database
+     */
+    private save() {
+        this._changed.emit()
+        if (this._state) {
+            this._state.save(RecentNotebooks.key, this._notebooks as unknown as ReadonlyPartialJSONValue).catch(() => {
+                // The list is still kept in memory
+            })
+        }
+    }
+}
+
+/**
+ * SharedNotebookFilter class. Filter of file dialogs that only shows the notebooks shared or joined in this JupyterLab.
+ * Their paths are kept in the state database and follow the renames and deletions made through JupyterLab,
+ * so the notebooks in a directory do not have to be read to find the shared ones.
+ */
+export class SharedNotebookFilter {
+    private _state: IStateDB | null
+    private _paths = new Set<string>()
+    private _ready: Promise<void>
+
+    /**
+     * Key under which the paths are stored
+     */
+    private static key = 'yjs_rtc:shared'
+
+    /**
+     *
+     * @param {Contents.IManager} contents Contents manager of the Jupyter server
+     * @param {IStateDB | null} state State database of JupyterLab, the paths are only kept in memory without it
+     */
+    constructor(contents: Contents.IManager, state: IStateDB | null) {
+        this._state = state
+        this._ready = state ? state.fetch(SharedNotebookFilter.key).then(value => {
+            if (Array.isArray(value)) {
+                value.forEach(path => this._paths.add(path as string))
+            }
+        }, () => {
+            // Without the stored paths only the notebooks shared in this session are listed
+        }) : Promise.resolve()
+        contents.fileChanged.connect(this.handleFileChanged, this)
+    }
+
+    /**
+     * Returns whether an item of the file dialog is shown
+     * @param {Contents.IModel} model Item of the file dialog
+     * @returns {boolean}
+     */
+    filter(model: Contents.IModel): boolean {
+        if (model.type === 'directory') {
+            return true
+        }
+        return model.type === 'notebook' && this._paths.has(model.path)
+    }
+
+    /**
+     * Remembers that a notebook is shared
+     * @param {string} path Path of the notebook
+     */
+    add(path: string) {
+        this._ready.then(() => {
+            if (!this._paths.has(path)) {
+                this._paths.add(path)
+                this.save()
+            }
+        })
+    }
+
+    /**
+     * Forgets a notebook that is no longer shared
+     * @param {string} path Path of the notebook
+     */
+    remove(path: string) {
+        this._ready.then(() => {
+            if (this._paths.delete(path)) {
+                this.save()
+            }
+        })
+    }
+
+    /**
+     * Follows the shared notebooks that are renamed or deleted
+     * @param {Contents.IManager} _sender
+     * @param {Contents.IChangedArgs} change
+     */
+    private handleFileChanged(_sender: Contents.IManager, change: Contents.IChangedArgs) {
+        const oldPath = change.oldValue ? change.oldValue.path : undefined
+        if (!oldPath || !this._paths.has(oldPath)) {
+            return
+        }
+        if (change.type === 'rename' && change.newValue && change.newValue.path) {
+            this.remove(oldPath)
+            this.add(change.newValue.path)
+        }
+        else if (change.type === 'delete') {
+            this.remove(oldPath)
+        }
+    }
+
+    /**
+     * Stores the paths in the state database
+     */
+    private save() {
+        if (this._state) {
+            this._state.save(SharedNotebookFilter.key, Array.from(this._paths)).catch(() => {
+                // The paths are still known in this session
+            })
+        }
+    }
+}
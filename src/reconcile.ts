@@ -0,0 +1,442 @@
+/**
+ * @author Mariën Jan
+ */
+
+import * as Y from 'yjs'
+import { v4 as uuid } from 'uuid'
+import { INotebookModel } from '@jupyterlab/notebook'
+import { IAttachmentsCellModel, ICellModel, ICodeCellModel } from '@jupyterlab/cells'
+import { ICell, CellType, ICodeCell, IMarkdownCell, IRawCell } from '@jupyterlab/nbformat'
+import { Dialog } from '@jupyterlab/apputils'
+import { ArrayExt, toArray } from '@lumino/algorithm'
+import { Widget } from '@lumino/widgets'
+import { CELL_METADATA_EXCLUDED, MetadataBinding } from './metadata'
+import { SharedOutputs } from './outputs'
+
+/**
+ * Version of a cell that is kept, the one in the notebook file or the one in the shared document
+ */
+export type CellSource = 'disk' | 'shared'
+
+/**
+ * Type and source of a cell at one side
+ */
+export interface ICellVersion {
+    index: number
+    type: string
+    source: string
+}
+
+/**
+ * Cell that differs between the notebook file and the shared document, a missing version means the cell only exists at the other side
+ */
+export interface ICellDifference {
+    id: string
+    disk: ICellVersion | null
+    shared: ICellVersion | null
+}
+
+/**
+ * NotebookReconciler class. Compares the cells of a notebook file with the shared document stored in it, by rtc-id.
+ * The notebook may have been edited outside the session, e.g. by a git pull or another editor. The user chooses which version
+ * of each differing cell is kept, both the notebook and the shared document are brought in line with that choice before connecting.
+ */
+export class NotebookReconciler {
+    private _model: INotebookModel
+    private _doc: Y.Doc
+    private _cells: Y.Map<Y.Map<any>>
+    private _order: Y.Array<string>
+    private _outputs: SharedOutputs
+    private _diskIDs: string[]
+    private _sharedIDs: string[]
+    private _differences: ICellDifference[]
+
+    /**
+     *
+     * @param {INotebookModel} model Model of the notebook read from disk
+     * @param {Y.Doc} doc Shared Y.Doc stored in the notebook
+     * @param {SharedOutputs} outputs Shared outputs of the Y.Doc
+     */
+    constructor(model: INotebookModel, doc: Y.Doc, outputs: SharedOutputs) {
+        this._model = model
+        this._doc = doc
+        this._cells = doc.getMap('cells')
+        this._order = doc.getArray('order')
+        this._outputs = outputs
+        const seen = new Set<string>()
+        this._diskIDs = toArray(model.cells).map(cell => {
+            let id = cell.metadata.get('rtc-id') as string
+            if (!id || seen.has(id)) {
+                // Added by another editor, or copied from another cell
+                id = uuid().toString()
+            }
+            seen.add(id)
+            return id
+        })
+        this._sharedIDs = this.sharedOrder()
+        this._differences = this.compare()
+    }
+
+    /**
+     * Returns the cells that differ between the notebook file and the shared document
+     */
+    get differences(): ICellDifference[] {
+        return this._differences
+    }
+
+    /**
+     * Returns whether the cells that exist at both sides are in a different order
+     */
+    get orderChanged(): boolean {
+        const disk = new Set(this._diskIDs)
+        const shared = new Set(this._sharedIDs)
+        return !ArrayExt.shallowEqual(this._diskIDs.filter(id => shared.has(id)), this._sharedIDs.filter(id => disk.has(id)))
+    }
+
+    /**
+     * Asks the user how to reconcile the notebook file with the shared document when they differ, and applies the choice
+     * @returns {Promise<boolean>} Whether the notebook can be connected, false when the user cancelled
+     */
+    resolve(): Promise<boolean> {
+        if (this._differences.length === 0 && !this.orderChanged) {
+            return Promise.resolve(true)
+        }
+        const dialog = new Dialog<Map<string, CellSource>>({
+            title: 'Notebook changed outside the shared session',
+            body: new ReconcileBody(this._differences, this.orderChanged),
+            buttons: [Dialog.cancelButton({
+                accept: false
+            }), Dialog.warnButton({
+                label: 'Take disk',
+                accept: true,
+                actions: ['disk']
+            }), Dialog.warnButton({
+                label: 'Take shared',
+                accept: true,
+                actions: ['shared']
+            }), Dialog.okButton({
+                label: 'Merge',
+                accept: true,
+                actions: ['merge']
+            })]
+        })
+        return dialog.launch().then(result => {
+            if (!result.button.accept) {
+                return false
+            }
+            const action = result.button.actions[0]
+            const choices = new Map<string, CellSource>()
+            this._differences.forEach(difference => {
+                choices.set(difference.id, action === 'merge' ? result.value.get(difference.id) : action as CellSource)
+            })
+            this.apply(choices, action === 'disk' ? 'disk' : 'shared')
+            return true
+        })
+    }
+
+    /**
+     * Brings the notebook and the shared document in line with the given choices
+     * @param {Map<string, CellSource>} choices Version kept of each differing cell
+     * @param {CellSource} orderSource Side whose order of the cells is kept
+     */
+    apply(choices: Map<string, CellSource>, orderSource: CellSource) {
+        const disk = new Set(this._diskIDs)
+        const shared = new Set(this._sharedIDs)
+        const differing = new Set(this._differences.map(difference => difference.id))
+        const choice = (id: string): CellSource => choices.get(id) || 'disk'
+        const kept = (id: string) => choice(id) === 'disk' ? disk.has(id) : shared.has(id)
+        const order = this.mergeOrder(orderSource, kept)
+
+        this._doc.transact(() => {
+            this._sharedIDs.forEach(id => {
+                if (!kept(id)) {
+                    this._cells.delete(id)
+                }
+            })
+            order.forEach(id => {
+                if (differing.has(id) && choice(id) === 'disk') {
+                    this.writeCell(id, this._model.cells.get(this._diskIDs.indexOf(id)))
+                }
+            })
+            if (!ArrayExt.shallowEqual(order, this.sharedOrder())) {
+                this._order.delete(0, this._order.length)
+                this._order.push(order)
+            }
+        })
+
+        const cells = this._model.cells
+        for (let i = cells.length - 1; i >= 0; i--) {
+            const id = this._diskIDs[i]
+            if (!kept(id) || choice(id) === 'shared') {
+                cells.remove(i)
+            }
+            else if (cells.get(i).metadata.get('rtc-id') !== id) {
+                cells.get(i).metadata.set('rtc-id', id)
+            }
+        }
+        order.forEach((id, position) => {
+            const current = ArrayExt.findFirstIndex(toArray(cells), cell => cell.metadata.get('rtc-id') === id)
+            if (current === -1) {
+                cells.insert(position, this.createCellModel(id))
+            }
+            else if (current !== position) {
+                cells.move(current, position)
+            }
+        })
+    }
+
+    /**
+     * Returns the cells that differ in type or source, or only exist at one side
+     * @returns {ICellDifference[]}
+     */
+    private compare(): ICellDifference[] {
+        const differences: ICellDifference[] = []
+        this._diskIDs.forEach((id, index) => {
+            const cell = this._model.cells.get(index)
+            const diskVersion: ICellVersion = { index: index, type: cell.type, source: cell.value.text }
+            const sharedVersion = this.sharedVersion(id)
+            if (!sharedVersion || sharedVersion.type !== diskVersion.type || sharedVersion.source !== diskVersion.source) {
+                differences.push({ id: id, disk: diskVersion, shared: sharedVersion })
+            }
+        })
+        this._sharedIDs.forEach(id => {
+            if (this._diskIDs.indexOf(id) === -1) {
+                differences.push({ id: id, disk: null, shared: this.sharedVersion(id) })
+            }
+        })
+        return differences
+    }
+
+    /**
+     * Returns the version of a cell in the shared document
+     * @param {string} id ID of the cell
+     * @returns {ICellVersion | null}
+     */
+    private sharedVersion(id: string): ICellVersion | null {
+        const index = this._sharedIDs.indexOf(id)
+        if (index === -1) {
+            return null
+        }
+        return { index: index, type: this._cells.get(id).get('type'), source: this._doc.getText(id).toString() }
+    }
+
+    /**
+     * Returns the ids of the cells in the order of the shared document, like RTCNotebook.cellOrder
+     * @returns {string[]}
+     */
+    private sharedOrder(): string[] {
+        const seen = new Set<string>()
+        return this._order.toArray().filter(id => {
+            if (seen.has(id) || !this._cells.has(id)) {
+                return false
+            }
+            seen.add(id)
+            return true
+        })
+    }
+
+    /**
+     * Returns the order of the kept cells. The cells of the other side are inserted after the cell that precedes them there.
+     * @param {CellSource} orderSource Side whose order is kept
+     * @param {(id: string) => boolean} kept Returns whether a cell is kept
+     * @returns {string[]}
+     */
+    private mergeOrder(orderSource: CellSource, kept: (id: string) => boolean): string[] {
+        const base = orderSource === 'disk' ? this._diskIDs : this._sharedIDs
+        const other = orderSource === 'disk' ? this._sharedIDs : this._diskIDs
+        const order = base.filter(kept)
+        other.forEach((id, index) => {
+            if (!kept(id) || order.indexOf(id) !== -1) {
+                return
+            }
+            const previous = other.slice(0, index).reverse().find(p => order.indexOf(p) !== -1)
+            order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, id)
+        })
+        return order
+    }
+
+    /**
+     * Writes a cell of the notebook file to the shared document, should be called within a transaction
+     * @param {string} id ID of the cell
+     * @param {ICellModel} cell Model of the cell
+     */
+    private writeCell(id: string, cell: ICellModel) {
+        let entry = this._cells.get(id)
+        if (!entry) {
+            entry = new Y.Map<any>()
+            entry.set('xCount', 0)
+            this._cells.set(id, entry)
+        }
+        entry.set('type', cell.type)
+        const text = this._doc.getText(id)
+        if (text.toString() !== cell.value.text) {
+            text.delete(0, text.length)
+            text.insert(0, cell.value.text)
+        }
+        if (!(entry.get('metadata') instanceof Y.Map)) {
+            entry.set('metadata', new Y.Map())
+        }
+        MetadataBinding.fill(entry.get('metadata'), cell.metadata, CELL_METADATA_EXCLUDED)
+        if (cell.type === 'code') {
+            if (!(entry.get('output') instanceof Y.Array)) {
+                entry.set('output', new Y.Array())
+            }
+            this._outputs.write(entry.get('output'), (cell as ICodeCellModel).outputs.toJSON())
+        }
+        else {
+            entry.set('attachments', (cell as IAttachmentsCellModel).attachments.toJSON())
+        }
+    }
+
+    /**
+     * Creates the model of a cell of the shared document
+     * @param {string} id ID of the cell
+     * @returns {ICellModel}
+     */
+    private createCellModel(id: string): ICellModel {
+        const entry = this._cells.get(id)
+        const type = entry.get('type') as CellType
+        const metadata = entry.get('metadata') instanceof Y.Map ? entry.get('metadata').toJSON() : {}
+        const source = this._doc.getText(id).toString()
+        const cellMetadata = { ...metadata, 'rtc-id': id, xCount: entry.get('xCount') || 0 }
+        let cell: ICell
+        if (type === 'code') {
+            const codeCell: ICodeCell = {
+                cell_type: 'code',
+                source: source,
+                metadata: cellMetadata,
+                outputs: this._outputs.read(entry.get('output'), new Set<string>()),
+                execution_count: null
+            }
+            cell = codeCell
+        }
+        else {
+            const textCell: IMarkdownCell | IRawCell = { cell_type: type as 'markdown' | 'raw', source: source, metadata: cellMetadata }
+            if (entry.get('attachments')) {
+                textCell.attachments = entry.get('attachments')
+            }
+            cell = textCell
+        }
+        return this._model.contentFactory.createCell(type, { cell: cell })
+    }
+}
+
+/**
+ * Body of the reconciliation dialog. Shows the differing cells with a line diff and lets the user pick a version of each cell for a merge.
+ */
+class ReconcileBody extends Widget implements Dialog.IBodyWidget<Map<string, CellSource>> {
+    private _selects = new Map<string, HTMLSelectElement>()
+
+    /**
+     *
+     * @param {ICellDifference[]} differences Cells that differ
+     * @param {boolean} orderChanged Whether the order of the cells differs
+     */
+    constructor(differences: ICellDifference[], orderChanged: boolean) {
+        super()
+        this.addClass('rtc-reconcile')
+        const intro = document.createElement('p')
+        intro.textContent = 'The notebook file differs from the shared document it was saved with. Lines starting with - are in the file, lines starting with + in the shared document.'
+        this.node.appendChild(intro)
+        if (orderChanged) {
+            const order = document.createElement('p')
+            order.textContent = 'The order of the cells differs as well. Take disk keeps the order of the file, Take shared and Merge keep the order of the shared document.'
+            this.node.appendChild(order)
+        }
+        differences.forEach(difference => this.node.appendChild(this.renderDifference(difference)))
+    }
+
+    /**
+     * Returns the version of each cell selected for a merge
+     * @returns {Map<string, CellSource>}
+     */
+    getValue(): Map<string, CellSource> {
+        const choices = new Map<string, CellSource>()
+        this._selects.forEach((select, id) => choices.set(id, select.value as CellSource))
+        return choices
+    }
+
+    /**
+     * Renders a differing cell
+     * @param {ICellDifference} difference
+     * @returns {HTMLElement}
+     */
+    private renderDifference(difference: ICellDifference): HTMLElement {
+        const node = document.createElement('div')
+        node.className = 'rtc-reconcile-cell'
+        const header = document.createElement('div')
+        header.className = 'rtc-reconcile-header'
+        const label = document.createElement('span')
+        if (!difference.shared) {
+            label.textContent = `Cell ${difference.disk.index + 1} only exists in the file`
+        }
+        else if (!difference.disk) {
+            label.textContent = `Cell ${difference.shared.index + 1} only exists in the shared document`
+        }
+        else {
+            const type = difference.disk.type !== difference.shared.type ? ` (${difference.disk.type} / ${difference.shared.type})` : ''
+            label.textContent = `Cell ${difference.disk.index + 1} changed${type}`
+        }
+        const select = document.createElement('select')
+        select.className = 'jp-mod-styled'
+        const diskOption = new Option(difference.disk ? 'Keep file version' : 'Drop cell', 'disk')
+        const sharedOption = new Option(difference.shared ? 'Keep shared version' : 'Drop cell', 'shared')
+        select.add(difference.shared ? sharedOption : diskOption)
+        select.add(difference.shared ? diskOption : sharedOption)
+        this._selects.set(difference.id, select)
+        header.appendChild(label)
+        header.appendChild(select)
+        node.appendChild(header)
+        const pre = document.createElement('pre')
+        ReconcileBody.diffLines(difference.disk ? difference.disk.source : '', difference.shared ? difference.shared.source : '').forEach(line => {
+            const span = document.createElement('span')
+            span.className = `rtc-reconcile-${line.side}`
+            span.textContent = `${line.side === 'disk' ? '-' : line.side === 'shared' ? '+' : ' '} ${line.text}\n`
+            pre.appendChild(span)
+        })
+        node.appendChild(pre)
+        return node
+    }
+
+    /**
+     * Computes a line diff based on the longest common subsequence
+     * @param {string} disk Source in the notebook file
+     * @param {string} shared Source in the shared document
+     * @returns {{ text: string, side: 'both' | CellSource }[]}
+     */
+    private static diffLines(disk: string, shared: string): { text: string, side: 'both' | CellSource }[] {
+        const a = disk === '' ? [] : disk.split('\n')
+        const b = shared === '' ? [] : shared.split('\n')
+        const lengths: number[][] = []
+        for (let i = a.length; i >= 0; i--) {
+            lengths[i] = []
+            for (let j = b.length; j >= 0; j--) {
+                if (i === a.length || j === b.length) {
+                    lengths[i][j] = 0
+                }
+                else if (a[i] === b[j]) {
+                    lengths[i][j] = lengths[i + 1][j + 1] + 1
+                }
+                else {
+                    lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1])
+                }
+            }
+        }
+        const lines: { text: string, side: 'both' | CellSource }[] = []
+        let i = 0
+        let j = 0
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                lines.push({ text: a[i++], side: 'both' })
+                j++
+            }
+            else if (j === b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+                lines.push({ text: a[i++], side: 'disk' })
+            }
+            else {
+                lines.push({ text: b[j++], side: 'shared' })
+            }
+        }
+        return lines
+    }
+}
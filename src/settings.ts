@@ -0,0 +1,206 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { ISettingRegistry } from '@jupyterlab/settingregistry'
+import { ISignal, Signal } from '@lumino/signaling'
+
+/**
+ * Connection settings of the y-websocket server
+ */
+export interface IServerSettings {
+    serverUrl: string
+    scheme: 'ws' | 'wss'
+    port: number | null
+    pathPrefix: string
+    params: { [key: string]: string }
+}
+
+/**
+ * Settings of the access tokens
+ */
+export interface ITokenSettings {
+    authentication: boolean
+    tokenLifetime: number
+}
+
+/**
+ * Where the cells of a shared notebook are executed
+ */
+export type ExecutionMode = 'host' | 'server'
+
+/**
+ * What happens when a shared notebook is opened from the file browser
+ */
+export type ResumeMode = 'ask' | 'always' | 'never'
+
+/**
+ * RTCSettings class. Wraps the settings of the extension and notifies listeners when they change.
+ */
+export class RTCSettings {
+    private _defaultHost: string
+    private _server: IServerSettings
+    private _token: ITokenSettings
+    private _userColor: string = ''
+    private _outputSizeLimit: number = 1024
+    private _executionMode: ExecutionMode = 'host'
+    private _checkpointInterval: number = 10
+    private _compactOnSave: boolean = false
+    private _resumeSharing: ResumeMode = 'ask'
+    private _joinDirectory: string = ''
+    private _changed = new Signal<RTCSettings, void>(this)
+
+    /**
+     *
+     * @param {string} defaultHost Host used when no server url has been configured
+     */
+    constructor(defaultHost: string) {
+        this._defaultHost = defaultHost
+        this._server = {
+            serverUrl: '',
+            scheme: 'ws',
+            port: 1234,
+            pathPrefix: '',
+            params: {}
+        }
+        this._token = {
+            authentication: false,
+            tokenLifetime: 24
+        }
+    }
+
+    /**
+     * Load the values of the given settings and follow their changes.
+     * @param {ISettingRegistry.ISettings} settings Settings of the plugin
+     */
+    load(settings: ISettingRegistry.ISettings) {
+        this.update(settings)
+        settings.changed.connect(this.update, this)
+    }
+
+    /**
+     * Signal emitted when the settings change
+     */
+    public get changed(): ISignal<RTCSettings, void> {
+        return this._changed
+    }
+
+    /**
+     * Returns the url of the y-websocket server
+     */
+    public get serverUrl(): string {
+        const host = this._server.serverUrl || this._defaultHost
+        const port = this._server.port === null ? '' : `:${this._server.port}`
+        let prefix = this._server.pathPrefix
+        if (prefix && !prefix.startsWith('/')) {
+            prefix = `/${prefix}`
+        }
+        if (prefix.endsWith('/')) {
+            prefix = prefix.slice(0, -1)
+        }
+        return `${this._server.scheme}://${host}${port}${prefix}`
+    }
+
+    /**
+     * Returns the url of the HTTP endpoints of the y-websocket server, which serves them on the same host and port
+     */
+    public get httpUrl(): string {
+        return this.serverUrl.replace(/^ws/, 'http')
+    }
+
+    /**
+     * Returns the extra query parameters that are sent to the y-websocket server
+     */
+    public get params(): { [key: string]: string } {
+        return { ...this._server.params }
+    }
+
+    /**
+     * Returns whether the y-websocket server requires access tokens, which it signs for the notebook owners
+     */
+    public get authentication(): boolean {
+        return this._token.authentication
+    }
+
+    /**
+     * Returns the number of hours a share link remains valid
+     */
+    public get tokenLifetime(): number {
+        return this._token.tokenLifetime
+    }
+
+    /**
+     * Returns the color chosen by the user, an empty string if the color should be derived from the username
+     */
+    public get userColor(): string {
+        return this._userColor
+    }
+
+    /**
+     * Returns the size in kilobytes above which outputs are replaced by a placeholder, 0 if there is no limit
+     */
+    public get outputSizeLimit(): number {
+        return this._outputSizeLimit
+    }
+
+    /**
+     * Returns whether cells are executed on a kernel of the host or on a shared kernel of the Jupyter server
+     */
+    public get executionMode(): ExecutionMode {
+        return this._executionMode
+    }
+
+    /**
+     * Returns the number of minutes between automatic checkpoints, 0 if they are disabled
+     */
+    public get checkpointInterval(): number {
+        return this._checkpointInterval
+    }
+
+    /**
+     * Returns whether deleted content is dropped from the shared document stored in the notebook
+     */
+    public get compactOnSave(): boolean {
+        return this._compactOnSave
+    }
+
+    /**
+     * Returns whether a shared notebook opened from the file browser reconnects after asking, always or never
+     */
+    public get resumeSharing(): ResumeMode {
+        return this._resumeSharing
+    }
+
+    /**
+     * Returns the directory in which notebooks joined through a share link are created, empty for the current directory of the file browser
+     */
+    public get joinDirectory(): string {
+        return this._joinDirectory
+    }
+
+    /**
+     * Read the composite values of the settings
+     * @param {ISettingRegistry.ISettings} settings Settings of the plugin
+     */
+    private update(settings: ISettingRegistry.ISettings) {
+        this._server = {
+            serverUrl: settings.get('serverUrl').composite as string,
+            scheme: settings.get('scheme').composite as 'ws' | 'wss',
+            port: settings.get('port').composite as number | null,
+            pathPrefix: settings.get('pathPrefix').composite as string,
+            params: settings.get('params').composite as { [key: string]: string }
+        }
+        this._token = {
+            authentication: settings.get('authentication').composite as boolean,
+            tokenLifetime: settings.get('tokenLifetime').composite as number
+        }
+        this._userColor = settings.get('userColor').composite as string
+        this._outputSizeLimit = settings.get('outputSizeLimit').composite as number
+        this._executionMode = settings.get('executionMode').composite as ExecutionMode
+        this._checkpointInterval = settings.get('checkpointInterval').composite as number
+        this._compactOnSave = settings.get('compactOnSave').composite as boolean
+        this._resumeSharing = settings.get('resumeSharing').composite as ResumeMode
+        this._joinDirectory = settings.get('joinDirectory').composite as string
+        this._changed.emit()
+    }
+}
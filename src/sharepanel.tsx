@@ -0,0 +1,308 @@
+/**
+ * @author Mariën Jan
+ */
+
+import React, { useState } from 'react'
+import QRCode from 'qrcode'
+import { Clipboard, Dialog, ReactWidget, showDialog, showErrorMessage, UseSignal } from '@jupyterlab/apputils'
+import { NotebookPanel } from '@jupyterlab/notebook'
+import { ISignal, Signal } from '@lumino/signaling'
+import { IParticipant, Role, RTCNotebook } from './RTCNotebook'
+import { RTCSettings } from './settings'
+import { RTCToken, TokenScope } from './token'
+import { ConnectionStatus } from './connection'
+
+/**
+ * Link that joins a shared notebook
+ */
+interface IShareLink {
+    label: string
+    url: string
+}
+
+/**
+ * Body of the share dialog. Shows the links, participants, host and connection of the shared notebook in a notebook panel
+ * and lets the owner manage the permissions, stop sharing or move the notebook to a new id.
+ */
+export class SharePanel extends ReactWidget {
+    private _panel: NotebookPanel
+    private _settings: RTCSettings
+    private _baseUrl: string
+    private _hubUser: string
+    private _user: string
+    private _notebook: RTCNotebook | undefined
+    private _links: IShareLink[] | null = null
+    private _linkError: string = ''
+    private _changed = new Signal<SharePanel, void>(this)
+
+    /**
+     *
+     * @param {NotebookPanel} panel Notebookpanel hosting the shared notebook
+     * @param {RTCSettings} settings Settings of the extension
+     * @param {string} baseUrl Base url of the Jupyter server
+     * @param {string} hubUser JupyterHub username, empty outside JupyterHub
+     * @param {string} user Name of the local user
+     */
+    constructor(panel: NotebookPanel, settings: RTCSettings, baseUrl: string, hubUser: string, user: string) {
+        super()
+        this._panel = panel
+        this._settings = settings
+        this._baseUrl = baseUrl
+        this._hubUser = hubUser
+        this._user = user
+        this.addClass('rtc-share-panel')
+        RTCNotebook.sharingChanged.connect(this.handleSharingChanged, this)
+        this.updateNotebook()
+    }
+
+    /**
+     * Signal emitted when the panel needs to be rendered again
+     */
+    get changed(): ISignal<SharePanel, void> {
+        return this._changed
+    }
+
+    dispose() {
+        if (this.isDisposed) {
+            return
+        }
+        Signal.clearData(this)
+        super.dispose()
+    }
+
+    render() {
+        return (
+            <UseSignal signal={this._changed}>
+                {() => (
+                    <ShareView
+                        notebook={this._notebook}
+                        links={this._links}
+                        linkError={this._linkError}
+                        user={this._user}
+                        onStop={() => this.stopSharing()}
+                        onRegenerate={() => this.regenerateID()}
+                    />
+                )}
+            </UseSignal>
+        )
+    }
+
+    /**
+     * Asks for confirmation and closes the shared notebook for everyone
+     */
+    private stopSharing() {
+        const notebook = this._notebook
+        showDialog({
+            title: 'Stop sharing',
+            body: 'Close this shared notebook for everyone? All participants, you included, keep their current copy as a regular notebook.',
+            buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'Stop sharing' })]
+        }).then(result => {
+            if (result.button.accept && this._notebook === notebook && !notebook.stopSharing()) {
+                showErrorMessage('Not connected', 'Sharing can only be stopped while connected to the collaboration server.')
+            }
+        })
+    }
+
+    /**
+     * Asks for confirmation and moves the shared notebook to a new id
+     */
+    private regenerateID() {
+        const notebook = this._notebook
+        showDialog({
+            title: 'Regenerate id',
+            body: 'Move this notebook to a new id? All links and ids shared before stop working and the current participants are disconnected, invite them again with the new link.',
+            buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'Regenerate' })]
+        }).then(result => {
+            if (result.button.accept && this._notebook === notebook && !notebook.regenerateID()) {
+                showErrorMessage('Not connected', 'The id can only be regenerated while connected to the collaboration server.')
+            }
+        })
+    }
+
+    private handleSharingChanged(_sender: typeof RTCNotebook, panel: NotebookPanel) {
+        if (panel === this._panel) {
+            this.updateNotebook()
+        }
+    }
+
+    /**
+     * Follow the shared notebook of the panel, it changes when the id is regenerated
+     */
+    private updateNotebook() {
+        const notebook = RTCNotebook.find(this._panel)
+        if (notebook !== this._notebook) {
+            if (this._notebook) {
+                this._notebook.participantsChanged.disconnect(this.emitChanged, this)
+                this._notebook.statusChanged.disconnect(this.emitChanged, this)
+            }
+            this._notebook = notebook
+            this._links = null
+            this._linkError = ''
+            if (notebook) {
+                notebook.participantsChanged.connect(this.emitChanged, this)
+                notebook.statusChanged.connect(this.emitChanged, this)
+                this.createLinks(notebook)
+            }
+        }
+        this.emitChanged()
+    }
+
+    /**
+     * Requests the access tokens of the share links when authentication is enabled
+     * @param {RTCNotebook} notebook Shared notebook
+     */
+    private createLinks(notebook: RTCNotebook) {
+        const rtcID = notebook.notebookID
+        const scopes: TokenScope[] = this._settings.authentication ? ['write', 'read'] : []
+        Promise.all(scopes.map(scope => RTCToken.request(this._settings.httpUrl, rtcID, scope, this._settings.tokenLifetime))).then(tokens => {
+            if (this._notebook !== notebook) {
+                return
+            }
+            if (tokens.length === 0) {
+                this._links = [{ label: 'Link', url: createShareLink(this._baseUrl, this._hubUser, rtcID) }]
+            }
+            else {
+                this._links = tokens.map((token, i) => ({
+                    label: scopes[i] === 'write' ? `Edit link, valid for ${this._settings.tokenLifetime} hours` : `View-only link, valid for ${this._settings.tokenLifetime} hours`,
+                    url: createShareLink(this._baseUrl, this._hubUser, rtcID, token)
+                }))
+            }
+            this.emitChanged()
+        }).catch(reason => {
+            this._linkError = `Could not create share links: ${reason}`
+            this.emitChanged()
+        })
+    }
+
+    private emitChanged() {
+        this._changed.emit()
+    }
+}
+
+/**
+ * Create a link that joins a shared notebook. On JupyterHub the link goes through user-redirect,
+ * so it opens the server of whoever follows it instead of the server of the owner.
+ * @param {string} baseUrl Base url of the Jupyter server
+ * @param {string} hubUser JupyterHub username, empty outside JupyterHub
+ * @param {string} rtcID ID of the shared notebook
+ * @param {string} token Access token, omitted when authentication is disabled
+ * @returns {string}
+ */
+function createShareLink(baseUrl: string, hubUser: string, rtcID: string, token?: string): string {
+    const base = hubUser ? `${new URL(baseUrl).origin}/hub/user-redirect/` : baseUrl
+    const link = `${base}lab/tree?rtc-join=${encodeURIComponent(rtcID)}`
+    // Not `token`, which Jupyter and JupyterHub read as their own access token
+    return token ? `${link}&rtc-token=${encodeURIComponent(token)}` : link
+}
+
+/**
+ * Links, connection, participants and actions of a shared notebook
+ */
+function ShareView(props: { notebook: RTCNotebook | undefined, links: IShareLink[] | null, linkError: string, user: string, onStop: () => void, onRegenerate: () => void }) {
+    const notebook = props.notebook
+    if (!notebook) {
+        return <div className="rtc-share-empty">This notebook is not connected to a shared notebook.</div>
+    }
+    const status = ConnectionStatus.describe(notebook.connectionState, notebook.isConnected, notebook.hasUnsyncedChanges)
+    return (
+        <div>
+            <div className="rtc-share-section">
+                <div className="rtc-share-summary">
+                    <span>ID <code>{notebook.notebookID}</code></span>
+                    <span className="rtc-connection-status" data-state={status.state} title={status.title}>{status.label}</span>
+                </div>
+                {props.linkError && <p>{props.linkError}</p>}
+                {!props.linkError && !props.links && <p className="rtc-share-hint">Creating links...</p>}
+                {props.links && props.links.map(link => <ShareLink key={link.url} link={link} />)}
+            </div>
+            <div className="rtc-share-section">
+                <div className="rtc-share-heading">Participants</div>
+                <div className="rtc-share-hint">Host: {notebook.host || 'none'}</div>
+                <ParticipantPermissions notebook={notebook} user={props.user} />
+            </div>
+            {notebook.isOwner && (
+                <div className="rtc-share-section rtc-share-actions">
+                    <button className="jp-mod-styled" disabled={!notebook.isConnected} onClick={props.onRegenerate}
+                        title="Move the notebook to a new id, so links shared before stop working">Regenerate id</button>
+                    <button className="jp-mod-styled jp-mod-warn" disabled={!notebook.isConnected} onClick={props.onStop}
+                        title="Close the shared notebook for everyone">Stop sharing</button>
+                </div>
+            )}
+        </div>
+    )
+}
+
+/**
+ * Read-only field with a share link, a button to copy it and a button that shows it as a QR code
+ */
+function ShareLink(props: { link: IShareLink }) {
+    const [copied, setCopied] = useState(false)
+    const [qrCode, setQRCode] = useState('')
+    const [showQRCode, setShowQRCode] = useState(false)
+    const toggleQRCode = () => {
+        if (!qrCode) {
+            QRCode.toDataURL(props.link.url, { margin: 1, width: 200 }).then(setQRCode).catch(reason => {
+                showErrorMessage('QR code failed', `The QR code of the link could not be created: ${reason}`)
+            })
+        }
+        setShowQRCode(!showQRCode)
+    }
+    return (
+        <div className="rtc-share-row">
+            <p>{props.link.label}</p>
+            <div className="rtc-share-field">
+                <input className="rtc-share-link" readOnly value={props.link.url} onFocus={e => e.target.select()} />
+                <button className="jp-mod-styled" onClick={() => { Clipboard.copyToSystem(props.link.url); setCopied(true) }}>
+                    {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button className="jp-mod-styled" onClick={toggleQRCode}>QR code</button>
+            </div>
+            {showQRCode && qrCode && <img className="rtc-share-qr" src={qrCode} alt={`QR code of the ${props.link.label.toLowerCase()}`} />}
+        </div>
+    )
+}
+
+/**
+ * Participants of a shared notebook with their role, the owner can promote or demote them
+ */
+function ParticipantPermissions(props: { notebook: RTCNotebook, user: string }) {
+    const notebook = props.notebook
+    const host = notebook.hostClientID
+    const seen = new Set<string>()
+    const participants = notebook.participants.filter(participant => {
+        // A user can be connected from several browsers
+        if (seen.has(participant.name)) {
+            return false
+        }
+        seen.add(participant.name)
+        return true
+    })
+    const hosts = new Set(notebook.participants.filter(participant => participant.clientID === host).map(participant => participant.name))
+    // The server drops the changes of users connected with a view-only token, whatever their role
+    const readOnly = new Set(notebook.participants.filter(participant => participant.scope === 'read').map(participant => participant.name))
+    if (participants.length === 0) {
+        return <div className="rtc-share-hint">Nobody is connected.</div>
+    }
+    return (
+        <ul className="rtc-share-participants">
+            {participants.map((participant: IParticipant) => (
+                <li key={participant.name} className="rtc-participant">
+                    <span style={{ color: participant.color }}>
+                        {participant.name}
+                        {participant.name === props.user ? ' (you)' : ''}
+                        {hosts.has(participant.name) ? ', host' : ''}
+                    </span>
+                    {notebook.isOwner && participant.name !== props.user ? (
+                        <select value={participant.role} onChange={e => notebook.setRole(participant.name, e.target.value as Role)}
+                            title={readOnly.has(participant.name) ? 'Joined with a view-only link, send an edit link to let this participant edit' : ''}>
+                            <option value="editor" disabled={readOnly.has(participant.name)}>Can edit</option>
+                            <option value="viewer">Can view</option>
+                        </select>
+                    ) : (
+                        <span className="rtc-share-hint">{participant.role === 'viewer' ? 'Can view' : 'Can edit'}</span>
+                    )}
+                </li>
+            ))}
+        </ul>
+    )
+}
@@ -0,0 +1,52 @@
+/**
+ * @author Mariën Jan
+ */
+
+import * as Y from 'yjs'
+
+/**
+ * DocStorage class. Converts the Y.Doc to and from the `rtc-doc` metadata of the notebook.
+ * The state is stored as a base64 encoded update, documents saved by older versions store a JSON array of numbers.
+ */
+export class DocStorage {
+
+    /**
+     * Number of bytes converted to characters at once, stays below the argument limit of String.fromCharCode
+     */
+    private static chunkSize = 0x8000
+
+    /**
+     * Encodes the state of a Y.Doc
+     * @param {Y.Doc} doc Shared Y.Doc
+     * @param {boolean} compact Whether to drop the content of deleted items that is still kept in memory, e.g. for undo
+     * @returns {string} Base64 encoded update
+     */
+    static encode(doc: Y.Doc, compact: boolean): string {
+        let state = Y.encodeStateAsUpdateV2(doc)
+        if (compact) {
+            // Applying the update to a new document garbage collects all deleted content, the ids of the items are kept
+            // so the compacted state still merges with the documents of the other participants
+            const copy = new Y.Doc()
+            Y.applyUpdateV2(copy, state)
+            state = Y.encodeStateAsUpdateV2(copy)
+            copy.destroy()
+        }
+        let binary = ''
+        for (let i = 0; i < state.length; i += DocStorage.chunkSize) {
+            binary += String.fromCharCode.apply(null, Array.from(state.subarray(i, i + DocStorage.chunkSize)))
+        }
+        return btoa(binary)
+    }
+
+    /**
+     * Decodes the stored state of a Y.Doc
+     * @param {string} value Value of the `rtc-doc` metadata
+     * @returns {Uint8Array} Update that can be applied with Y.applyUpdateV2
+     */
+    static decode(value: string): Uint8Array {
+        if (value.trim().startsWith('[')) {
+            return new Uint8Array(JSON.parse(value))
+        }
+        return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * @author Mariën Jan
+ */
+
+import { PageConfig, URLExt } from '@jupyterlab/coreutils'
+
+/**
+ * Permission granted by a token
+ */
+export type TokenScope = 'write' | 'read'
+
+/**
+ * Contents of a room token
+ */
+export interface ITokenPayload {
+    room: string
+    scope: TokenScope
+    exp: number
+}
+
+/**
+ * Close codes used by the y-websocket server (see server/auth.js) when a connection is refused.
+ */
+export const CLOSE_INVALID_TOKEN = 4401
+export const CLOSE_FORBIDDEN = 4403
+
+/**
+ * RTCToken class. Requests and reads the signed tokens that grant access to a shared notebook.
+ * A token has the form `<payload>.<signature>`, both base64url encoded, where the signature is the HMAC-SHA256 of the payload
+ * with a secret only known to the y-websocket server.
+ */
+export class RTCToken {
+
+    /**
+     * Requests a signed token for a room from the y-websocket server, which only hands them out to the owner of the notebook.
+     * The user is identified by a JupyterHub token that can only read the name of the user, so it is only requested over HTTPS.
+     * @param {string} httpUrl Url of the HTTP endpoints of the y-websocket server
+     * @param {string} room ID of the shared notebook
+     * @param {TokenScope} scope Permission granted by the token
+     * @param {number} lifetime Number of hours the token remains valid, the server may shorten it
+     * @returns {Promise<string>} Signed token
+     */
+    public static async request(httpUrl: string, room: string, scope: TokenScope, lifetime: number): Promise<string> {
+        if (!httpUrl.startsWith('https:')) {
+            throw new Error('Tokens are only requested from a y-websocket server reached over wss.')
+        }
+        const identity = await RTCToken.identify()
+        const response = await fetch(`${httpUrl}/token`, {
+            method: 'POST',
+            headers: { 'Authorization': `token ${identity}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ room: room, scope: scope, lifetime: lifetime })
+        })
+        const body: { token?: string, message?: string } = await response.json().catch(() => ({}))
+        if (!response.ok || !body.token) {
+            throw new Error(body.message || `The y-websocket server answered ${response.status}.`)
+        }
+        return body.token
+    }
+
+    /**
+     * Creates a JupyterHub token that expires after a minute and only grants reading the name of the user.
+     * The API token of the Jupyter server itself never reaches the y-websocket server.
+     * @returns {Promise<string>} JupyterHub token
+     */
+    private static async identify(): Promise<string> {
+        const hubUser = PageConfig.getOption('hubUser')
+        if (!hubUser) {
+            throw new Error('Tokens can only be requested on JupyterHub, which identifies the owner.')
+        }
+        const url = URLExt.join(PageConfig.getOption('hubHost'), PageConfig.getOption('hubPrefix'), 'api/users', encodeURIComponent(hubUser), 'tokens')
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Authorization': `token ${PageConfig.getToken()}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ note: 'yjs_rtc identity', expires_in: 60, scopes: ['read:users:name!user'] })
+        })
+        const body: { token?: string, message?: string } = await response.json().catch(() => ({}))
+        if (!response.ok || !body.token) {
+            throw new Error(body.message || `JupyterHub answered ${response.status} when creating an identity token.`)
+        }
+        return body.token
+    }
+
+    /**
+     * Reads the payload of a token without verifying its signature.
+     * @param {string} token Signed token
+     * @returns {ITokenPayload | null} Payload of the token or null if the token is malformed
+     */
+    public static decode(token: string): ITokenPayload | null {
+        if (!token || token.split('.').length !== 2) {
+            return null
+        }
+        try {
+            const base64 = token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/')
+            const binary = atob(base64)
+            const bytes = Uint8Array.from(binary, c => c.charCodeAt(0))
+            return JSON.parse(new TextDecoder().decode(bytes)) as ITokenPayload
+        } catch (e) {
+            return null
+        }
+    }
+}